@@ -1,13 +1,17 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
+import { AuthProvider } from './context/AuthContext';
 import { useAuth } from './hooks/useAuth';
 import Login from './components/Login';
 import ClientPortal from './pages/ClientPortal';
 import AdminPortal from './pages/AdminPortal';
+import AcceptInvite from './pages/AcceptInvite';
+import SecuritySettings from './pages/SecuritySettings';
 import { EmergencyProvider } from './context/EmergencyContext';
+import { ConsoleLockProvider } from './context/ConsoleLockContext';
 
 function AppContent() {
-  const { user, loading, isAdmin } = useAuth();
+  const { user, loading, isAdmin, assuranceLevel, nextAssuranceLevel } = useAuth();
   const location = useLocation();
   
   if (loading) {
@@ -21,12 +25,32 @@ function AppContent() {
     );
   }
 
+  // Invite links work whether or not someone is signed in on this device
+  if (location.pathname.startsWith('/accept-invite/')) {
+    return (
+      <Routes>
+        <Route path="/accept-invite/:token" element={<AcceptInvite />} />
+      </Routes>
+    );
+  }
+
   // If not authenticated, show login
   if (!user) {
     const isAdminRoute = location.pathname.startsWith('/admin');
     return <Login isAdmin={isAdminRoute} />;
   }
 
+  // Staff must pass a second factor before the control room opens. Those without
+  // an authenticator are sent to enrol one.
+  if (isAdmin() && assuranceLevel !== 'aal2') {
+    if (nextAssuranceLevel === 'aal2') {
+      return <Login isAdmin requireMfa />;
+    }
+    if (location.pathname !== '/settings/security') {
+      return <Navigate to="/settings/security" replace />;
+    }
+  }
+
   // If admin user tries to access client portal, redirect to admin
   if (isAdmin() && location.pathname.startsWith('/client')) {
     return <Navigate to="/admin" replace />;
@@ -37,13 +61,22 @@ function AppContent() {
     return <Navigate to="/client" replace />;
   }
 
+  const routes = (
+    <Routes>
+      <Route path="/" element={<Navigate to={isAdmin() ? "/admin" : "/client"} replace />} />
+      <Route path="/client" element={<ClientPortal />} />
+      <Route path="/admin" element={<AdminPortal />} />
+      <Route
+        path="/settings/security"
+        element={isAdmin() ? <SecuritySettings /> : <Navigate to="/client" replace />}
+      />
+    </Routes>
+  );
+
+  // Every staff page sits behind the console lock, not just the control room
   return (
     <EmergencyProvider>
-      <Routes>
-        <Route path="/" element={<Navigate to={isAdmin() ? "/admin" : "/client"} replace />} />
-        <Route path="/client" element={<ClientPortal />} />
-        <Route path="/admin" element={<AdminPortal />} />
-      </Routes>
+      {isAdmin() ? <ConsoleLockProvider>{routes}</ConsoleLockProvider> : routes}
     </EmergencyProvider>
   );
 }
@@ -51,7 +84,9 @@ function AppContent() {
 function App() {
   return (
     <Router>
-      <AppContent />
+      <AuthProvider>
+        <AppContent />
+      </AuthProvider>
     </Router>
   );
 }
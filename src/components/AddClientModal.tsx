@@ -1,14 +1,18 @@
 import React, { useState } from 'react';
 import { supabase } from '../lib/supabase';
-import { X, User, Phone, Mail, Home, Contact, AlertCircle, Search, MapPin } from 'lucide-react';
+import { useEmergency } from '../context/EmergencyContext';
+import { ClientInvite, createInviteUrl } from '../lib/invites';
+import MedicalFlagsField from './MedicalFlagsField';
+import { X, User, Phone, Mail, Home, Contact, AlertCircle, MapPin, HeartPulse } from 'lucide-react';
 
 interface AddClientModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onClientAdded: () => void;
+  onClientAdded: (invite: ClientInvite) => void;
 }
 
 export default function AddClientModal({ isOpen, onClose, onClientAdded }: AddClientModalProps) {
+  const { organizationId } = useEmergency();
   const [formData, setFormData] = useState({
     name: '',
     phone: '',
@@ -16,6 +20,7 @@ export default function AddClientModal({ isOpen, onClose, onClientAdded }: AddCl
     address: '',
     emergencyContact: '',
   });
+  const [medicalFlags, setMedicalFlags] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [addressSuggestions, setAddressSuggestions] = useState<any[]>([]);
@@ -28,30 +33,25 @@ export default function AddClientModal({ isOpen, onClose, onClientAdded }: AddCl
     setError('');
 
     try {
-      // Create auth user with default password
-      const defaultPassword = 'client123';
-      
-      const { data: authData, error: authError } = await supabase.auth.signUp({
-        email: formData.email,
-        password: defaultPassword,
-      });
-
-      if (authError) throw authError;
-
-      // Create client record with the auth user ID
-      const { error: clientError } = await supabase
+      // Create the client record; the login account is created when they accept the invite
+      const { data: client, error: clientError } = await supabase
         .from('clients')
         .insert({
-          id: authData.user?.id,
+          organization_id: organizationId ?? undefined,
           name: formData.name,
           phone: formData.phone,
           email: formData.email,
           address: formData.address,
           emergency_contact: formData.emergencyContact,
-        });
+          medical_flags: medicalFlags,
+        })
+        .select('id')
+        .single();
 
       if (clientError) throw clientError;
 
+      const url = await createInviteUrl(client.id);
+
       // Reset form and close modal
       setFormData({
         name: '',
@@ -60,10 +60,9 @@ export default function AddClientModal({ isOpen, onClose, onClientAdded }: AddCl
         address: '',
         emergencyContact: '',
       });
-      onClientAdded();
+      setMedicalFlags([]);
+      onClientAdded({ clientName: formData.name, email: formData.email, url });
       onClose();
-      
-      alert(`Client added successfully!\nLogin credentials:\nEmail: ${formData.email}\nPassword: ${defaultPassword}`);
     } catch (err: any) {
       setError(err.message || 'Failed to add client');
     } finally {
@@ -258,6 +257,14 @@ export default function AddClientModal({ isOpen, onClose, onClientAdded }: AddCl
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              <HeartPulse className="w-4 h-4 inline mr-2" />
+              Medical Flags
+            </label>
+            <MedicalFlagsField value={medicalFlags} onChange={setMedicalFlags} />
+          </div>
+
           <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
             <div className="flex items-start space-x-3">
               <div className="w-6 h-6 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
@@ -266,8 +273,8 @@ export default function AddClientModal({ isOpen, onClose, onClientAdded }: AddCl
               <div>
                 <h5 className="text-sm font-medium text-blue-900">Account Setup</h5>
                 <p className="text-sm text-blue-700 mt-1">
-                  A new client account will be created with the default password "client123". 
-                  The client can change this password after their first login.
+                  You will get a one-time invite link for this client. They choose their own
+                  password when they open it. The link expires after 72 hours.
                 </p>
               </div>
             </div>
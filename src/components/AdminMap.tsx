@@ -1,13 +1,18 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useEmergency } from '../context/EmergencyContext';
 import { MapPin, AlertTriangle, Users, Circle, RefreshCw } from 'lucide-react';
 import InteractiveMap from './InteractiveMap';
+import AlertDetailPanel from './AlertDetailPanel';
+import { isOpenStatus } from '../lib/alertLifecycle';
+import { alertTypeColor } from '../lib/alertTypes';
 
 export default function AdminMap() {
-  const { clients, alerts } = useEmergency();
+  const { clients, alerts, getAlertType } = useEmergency();
+  const [selectedAlertId, setSelectedAlertId] = useState<string | null>(null);
   
   const activeClients = clients.filter(client => client.status === 'active' && client.location);
-  const activeAlerts = alerts.filter(alert => alert.status === 'active');
+  // Every alert still being handled stays on the map until it is closed
+  const openAlerts = alerts.filter(alert => isOpenStatus(alert.status));
 
   // Prepare map locations
   const mapLocations = [
@@ -20,8 +25,9 @@ export default function AdminMap() {
       type: 'client' as const
     })),
     // Alert locations
-    ...activeAlerts.map(alert => {
+    ...openAlerts.map(alert => {
       const client = clients.find(c => c.id === alert.clientId);
+      const alertType = getAlertType(alert.organizationId, alert.type);
       return {
         id: alert.id,
         lat: alert.location.lat,
@@ -29,13 +35,16 @@ export default function AdminMap() {
         name: client?.name || 'Unknown Client',
         type: 'alert' as const,
         status: alert.status,
-        alertType: alert.type
+        alertType: alertType?.label ?? alert.type,
+        markerColor: alertTypeColor(alertType).marker
       };
     })
   ];
 
-  const handleLocationClick = (location: any) => {
-    console.log('Location clicked:', location);
+  const handleLocationClick = (location: { id: string; type: string }) => {
+    if (location.type === 'alert') {
+      setSelectedAlertId(location.id);
+    }
   };
 
   return (
@@ -110,7 +119,7 @@ export default function AdminMap() {
                 <AlertTriangle className="w-4 h-4 text-red-600" />
                 <span className="text-sm text-gray-700">Alerts</span>
               </div>
-              <span className="text-lg font-bold text-red-600">{activeAlerts.length}</span>
+              <span className="text-lg font-bold text-red-600">{openAlerts.length}</span>
             </div>
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-2">
@@ -133,22 +142,30 @@ export default function AdminMap() {
             {alerts.slice(0, 5).map((alert) => {
               const client = clients.find(c => c.id === alert.clientId);
               return (
-                <div key={alert.id} className="flex items-center space-x-3">
+                <button
+                  key={alert.id}
+                  onClick={() => setSelectedAlertId(alert.id)}
+                  className="w-full flex items-center space-x-3 text-left rounded-md hover:bg-gray-50"
+                >
                   <Circle className={`w-2 h-2 ${
                     alert.status === 'active' ? 'text-red-500 fill-current' :
-                    alert.status === 'acknowledged' ? 'text-yellow-500 fill-current' : 
+                    isOpenStatus(alert.status) ? 'text-yellow-500 fill-current' :
                     'text-green-500 fill-current'
                   }`} />
                   <div className="flex-1 min-w-0">
                     <p className="text-sm text-gray-900 truncate">{client?.name}</p>
-                    <p className="text-xs text-gray-500 capitalize">{alert.type}</p>
+                    <p className="text-xs text-gray-500 capitalize">{getAlertType(alert.organizationId, alert.type)?.label ?? alert.type}</p>
                   </div>
-                </div>
+                </button>
               );
             })}
           </div>
         </div>
       </div>
+
+      {selectedAlertId && (
+        <AlertDetailPanel alertId={selectedAlertId} onClose={() => setSelectedAlertId(null)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
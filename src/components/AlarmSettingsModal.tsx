@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { useEmergency } from '../context/EmergencyContext';
+import { ALARM_SOUNDS, AlarmSettings, AlarmSound } from '../lib/alarm';
+import { X, Bell, AlertCircle, Volume2 } from 'lucide-react';
+
+interface AlarmSettingsModalProps {
+  settings: AlarmSettings;
+  onSave: (settings: AlarmSettings) => Promise<void>;
+  onTest: (sound: AlarmSound, volume: number) => void;
+  onClose: () => void;
+}
+
+export default function AlarmSettingsModal({ settings, onSave, onTest, onClose }: AlarmSettingsModalProps) {
+  const { alertTypes } = useEmergency();
+  const [draft, setDraft] = useState<AlarmSettings>(settings);
+  const [permission, setPermission] = useState(() =>
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Super admins see every tenant's types; the mute list is by key
+  const types = alertTypes
+    .filter((alertType, index) => alertTypes.findIndex(t => t.key === alertType.key) === index)
+    .sort((a, b) => b.defaultPriority - a.defaultPriority);
+
+  const toggleType = (key: string) => {
+    setDraft(prev => ({
+      ...prev,
+      mutedTypes: prev.mutedTypes.includes(key)
+        ? prev.mutedTypes.filter(k => k !== key)
+        : [...prev.mutedTypes, key],
+    }));
+  };
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save alarm settings');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 px-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Bell className="w-5 h-5 mr-2 text-red-600" />
+            Alarm Settings
+          </h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-sm text-gray-600">
+            New alerts sound an alarm, flash this tab and show a desktop notification until someone acknowledges them.
+            These settings only affect your console.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+              <div className="flex">
+                <AlertCircle className="w-5 h-5 text-red-400" />
+                <div className="ml-3">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!draft.muted}
+              onChange={(e) => setDraft({ ...draft, muted: !e.target.checked })}
+              className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+            />
+            <span>Play alarm sounds</span>
+          </label>
+
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">Volume ({Math.round(draft.volume * 100)}%)</span>
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.1}
+              value={draft.volume}
+              disabled={draft.muted}
+              onChange={(e) => setDraft({ ...draft, volume: Number(e.target.value) })}
+              className="w-full"
+            />
+          </label>
+
+          {types.length > 0 && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">Sound for</span>
+              <ul className="space-y-2">
+                {types.map(alertType => (
+                  <li key={alertType.key} className="flex items-center justify-between">
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={!draft.mutedTypes.includes(alertType.key)}
+                        disabled={draft.muted}
+                        onChange={() => toggleType(alertType.key)}
+                        className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+                      />
+                      <span>{alertType.label}</span>
+                      <span className="text-xs text-gray-500">({ALARM_SOUNDS[alertType.alarmSound].label})</span>
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => onTest(alertType.alarmSound, draft.volume)}
+                      className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                      title="Test alarm"
+                    >
+                      <Volume2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.desktopNotifications}
+                disabled={permission === 'unsupported'}
+                onChange={(e) => setDraft({ ...draft, desktopNotifications: e.target.checked })}
+                className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+              />
+              <span>Desktop notifications</span>
+            </label>
+            {permission === 'default' && (
+              <button type="button" onClick={requestPermission} className="mt-1 text-sm text-red-600 hover:text-red-700">
+                Allow notifications in this browser
+              </button>
+            )}
+            {permission === 'denied' && (
+              <p className="mt-1 text-xs text-gray-500">Notifications are blocked. Allow them in your browser's site settings.</p>
+            )}
+            {permission === 'unsupported' && (
+              <p className="mt-1 text-xs text-gray-500">This browser does not support desktop notifications.</p>
+            )}
+          </div>
+
+          <div className="flex space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={() => onTest(types[0]?.alarmSound ?? 'siren', draft.volume)}
+              className="flex-1 inline-flex items-center justify-center px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <Volume2 className="w-4 h-4 mr-2" />
+              Test alarm
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
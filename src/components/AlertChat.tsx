@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  AlertMessage,
+  AlertMessageRow,
+  CANNED_REPLIES,
+  MessageSide,
+  fetchAlertMessages,
+  formatAlertMessage,
+  markAlertMessagesRead,
+  sendAlertMessage,
+} from '../lib/alertMessages';
+import { Check, CheckCheck, MessageCircle, Send } from 'lucide-react';
+
+interface AlertChatProps {
+  alertId: string;
+  // Which side of the conversation the signed-in user is on
+  side: MessageSide;
+  // Closed alerts keep their chat as a read-only record
+  open: boolean;
+  // Operators may watch a chat without being allowed to reply
+  canSend?: boolean;
+  counterpartName: string;
+}
+
+// New messages arrive from the insert and again over realtime; receipts arrive as updates
+const upsertMessage = (messages: AlertMessage[], message: AlertMessage) => (messages.some(m => m.id === message.id)
+  ? messages.map(m => (m.id === message.id ? message : m))
+  : [...messages, message]);
+
+export default function AlertChat({ alertId, side, open, canSend = true, counterpartName }: AlertChatProps) {
+  const [messages, setMessages] = useState<AlertMessage[]>([]);
+  const [body, setBody] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setMessages([]);
+    fetchAlertMessages(alertId)
+      .then(setMessages)
+      .catch(err => {
+        console.error('Error loading alert chat:', err);
+        setError('Failed to load messages');
+      });
+
+    const channel = supabase
+      .channel(`alert_messages:${alertId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'alert_messages', filter: `alert_id=eq.${alertId}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const message = formatAlertMessage(payload.new as AlertMessageRow);
+          setMessages(prev => upsertMessage(prev, message));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [alertId]);
+
+  const unreadCount = messages.filter(m => m.senderRole !== side && !m.readAt).length;
+
+  // Having the chat on screen counts as reading it
+  useEffect(() => {
+    if (unreadCount === 0) return;
+    markAlertMessagesRead(alertId).catch(err => console.error('Error marking messages read:', err));
+  }, [alertId, unreadCount]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length]);
+
+  const send = async (text: string) => {
+    if (!text.trim()) return;
+
+    setSending(true);
+    setError('');
+
+    try {
+      const message = await sendAlertMessage(alertId, text);
+      setMessages(prev => upsertMessage(prev, message));
+      setBody('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send(body);
+  };
+
+  const writable = open && canSend;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 mb-3 flex items-center">
+        <MessageCircle className="w-4 h-4 mr-2" />
+        Chat with {counterpartName}
+      </h3>
+
+      <div className="border rounded-md bg-gray-50 max-h-72 overflow-y-auto p-3 space-y-2">
+        {messages.length === 0 && (
+          <p className="text-sm text-gray-400 text-center py-4">
+            {open ? 'No messages yet' : 'No messages were sent'}
+          </p>
+        )}
+        {messages.map(message => {
+          const mine = message.senderRole === side;
+
+          return (
+            <div key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${mine ? 'bg-blue-600 text-white' : 'bg-white border text-gray-900'}`}>
+                <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                <p className={`mt-1 text-xs flex items-center justify-end ${mine ? 'text-blue-100' : 'text-gray-400'}`}>
+                  {message.createdAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {mine && (message.readAt ? (
+                    <span className="ml-1 inline-flex items-center" title={`Read ${message.readAt.toLocaleTimeString()}`}>
+                      <CheckCheck className="w-3 h-3 mr-0.5" />
+                      Read
+                    </span>
+                  ) : (
+                    <span className="ml-1 inline-flex items-center">
+                      <Check className="w-3 h-3 mr-0.5" />
+                      Sent
+                    </span>
+                  ))}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={endRef} />
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {!open && (
+        <p className="mt-2 text-xs text-gray-500">This chat closed when the alert was closed.</p>
+      )}
+
+      {writable && side === 'staff' && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {CANNED_REPLIES.map(reply => (
+            <button
+              key={reply}
+              type="button"
+              onClick={() => send(reply)}
+              disabled={sending}
+              className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-full hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              {reply}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {writable && (
+        <form onSubmit={handleSubmit} className="mt-2 flex space-x-2">
+          <input
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            maxLength={1000}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder={side === 'client' ? 'Message the control room' : 'Message the client'}
+          />
+          <button
+            type="submit"
+            disabled={sending || !body.trim()}
+            className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            aria-label="Send message"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,50 +1,374 @@
-import React from 'react';
-import { useEmergency } from '../context/EmergencyContext';
-import { AlertTriangle, Car, HelpCircle, Clock, MapPin, User, CheckCircle, XCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { useEmergency, Alert } from '../context/EmergencyContext';
+import { useAuth } from '../hooks/useAuth';
+import AlertDetailPanel from './AlertDetailPanel';
+import AlertWrapUpModal from './AlertWrapUpModal';
+import { RESOLUTION_LABELS } from '../lib/resolution';
+import EscalationCountdown from './EscalationCountdown';
+import AlertMediaGallery from './AlertMediaGallery';
+import { useAlertPresence } from '../hooks/useAlertPresence';
+import { can as roleCan } from '../lib/permissions';
+import { ESCALATION_ACTION_LABELS } from '../lib/escalation';
+import { alertTypeColor, alertTypeIcon } from '../lib/alertTypes';
+import { alertExportColumns } from '../lib/export';
+import ExportModal from './ExportModal';
+import { MEDICAL_FLAG_LABELS, MedicalFlag, PRIORITY_STYLES, PriorityScore, scoreAlert } from '../lib/priority';
+import {
+  AlertStatus,
+  ACTION_STYLES,
+  CLOSED_STATUSES,
+  OPEN_STATUSES,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  TRANSITION_LABELS,
+  allowedTransitions,
+  isOpenStatus,
+} from '../lib/alertLifecycle';
+import { AlertTriangle, AlertCircle, Clock, MapPin, User, CheckCircle, Eye, ShieldAlert, Siren, X, UserCheck, HeartPulse, Download } from 'lucide-react';
 
 export default function AlertDashboard() {
-  const { alerts, clients, acknowledgeAlert, resolveAlert } = useEmergency();
-
-  const getAlertIcon = (type: string) => {
-    switch (type) {
-      case 'panic':
-        return AlertTriangle;
-      case 'accident':
-        return Car;
-      case 'assistance':
-        return HelpCircle;
-      default:
-        return AlertTriangle;
+  const {
+    alerts,
+    clients,
+    staff,
+    transitionAlert,
+    claimAlert,
+    assignAlert,
+    getStaffName,
+    escalations,
+    dismissEscalation,
+    getPriorityWeights,
+    getAlertType
+  } = useEmergency();
+  const { user, can } = useAuth();
+  const [actionError, setActionError] = useState('');
+  const [selectedAlertId, setSelectedAlertId] = useState<string | null>(null);
+  const [wrapUp, setWrapUp] = useState<{ alertId: string; status: AlertStatus } | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const { viewersOf } = useAlertPresence(selectedAlertId);
+  const [now, setNow] = useState(Date.now());
+
+  // Waiting time feeds the priority score, so rescore periodically
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Staff who can take over an alert
+  const assignableStaff = staff.filter(member => roleCan(member.role, 'alert.acknowledge'));
+  const readOnly = !can('alert.acknowledge') && !can('alert.dispatch') && !can('alert.resolve');
+
+  const alertTypeOf = (alert: Alert) => getAlertType(alert.organizationId, alert.type);
+  const typeLabel = (alert: Alert) => alertTypeOf(alert)?.label ?? alert.type;
+
+  const getClientName = (clientId: string) => {
+    const client = clients.find(c => c.id === clientId);
+    return client?.name || 'Unknown Client';
+  };
+
+  const scores = new Map<string, PriorityScore>(
+    alerts.map(alert => [alert.id, scoreAlert(alert, {
+      alertType: alertTypeOf(alert),
+      client: clients.find(c => c.id === alert.clientId),
+      alerts,
+      weights: getPriorityWeights(alert.organizationId),
+      now
+    })])
+  );
+
+  // Open alerts are worked highest priority first; closed ones newest first
+  const byPriority = (a: Alert, b: Alert) =>
+    (scores.get(b.id)?.score ?? 0) - (scores.get(a.id)?.score ?? 0) ||
+    a.timestamp.getTime() - b.timestamp.getTime();
+
+  const byRecency = (a: Alert, b: Alert) => b.timestamp.getTime() - a.timestamp.getTime();
+
+  const alertsIn = (status: AlertStatus) =>
+    alerts.filter(alert => alert.status === status).sort(isOpenStatus(status) ? byPriority : byRecency);
+
+  const renderPriority = (alert: Alert) => {
+    const priority = scores.get(alert.id);
+    if (!priority || !isOpenStatus(alert.status)) return null;
+
+    return (
+      <span
+        className={`ml-2 px-2 py-0.5 text-xs font-semibold rounded normal-case ${PRIORITY_STYLES[priority.level]}`}
+        title={priority.factors.join('\n')}
+      >
+        P{priority.score}
+      </span>
+    );
+  };
+
+  const renderClientFlags = (alert: Alert) => (
+    <>
+      {alert.pressCount > 1 && (
+        <span
+          className="ml-2 px-2 py-0.5 text-xs font-semibold rounded normal-case bg-red-100 text-red-800"
+          title={`Last pressed ${alert.lastPressedAt.toLocaleTimeString()}`}
+        >
+          ×{alert.pressCount} presses
+        </span>
+      )}
+      {alert.cancelledByClient && (
+        <span className="ml-2 px-2 py-0.5 text-xs font-semibold uppercase rounded bg-green-100 text-green-800">Cancelled by client</span>
+      )}
+      {alert.priorityBoost > 0 && !alert.duress && (
+        <span
+          className="ml-2 px-2 py-0.5 text-xs font-semibold uppercase rounded bg-orange-100 text-orange-800"
+          title="The client entered a wrong PIN when trying to cancel"
+        >
+          Failed cancel
+        </span>
+      )}
+    </>
+  );
+
+  const activeAlerts = alertsIn('active');
+
+  const ownedByOther = (alert: Alert) =>
+    !!alert.assignedTo && alert.assignedTo !== user?.id && !can('alert.assign');
+
+  // Next stages the signed-in role is allowed to move this alert into.
+  // Alerts owned by another operator are theirs to progress.
+  const nextActions = (alert: Alert) => (ownedByOther(alert) ? [] : allowedTransitions(alert.status, can));
+
+  const handleTransition = async (alert: Alert, status: AlertStatus) => {
+    // Closing and reopening ask for a wrap-up or reason first
+    if (CLOSED_STATUSES.includes(status) || CLOSED_STATUSES.includes(alert.status)) {
+      setWrapUp({ alertId: alert.id, status });
+      return;
+    }
+
+    setActionError('');
+    try {
+      await transitionAlert(alert.id, status);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update alert');
     }
   };
 
-  const getAlertColor = (type: string, status: string) => {
-    if (status === 'resolved') return 'text-gray-400 bg-gray-50';
-    if (status === 'acknowledged') return 'text-yellow-600 bg-yellow-50';
-    
-    switch (type) {
-      case 'panic':
-        return 'text-red-600 bg-red-50';
-      case 'accident':
-        return 'text-orange-600 bg-orange-50';
-      case 'assistance':
-        return 'text-blue-600 bg-blue-50';
-      default:
-        return 'text-gray-600 bg-gray-50';
+  const handleClaim = async (alertId: string) => {
+    setActionError('');
+    try {
+      await claimAlert(alertId);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to claim alert');
     }
   };
 
-  const getClientName = (clientId: string) => {
-    const client = clients.find(c => c.id === clientId);
-    return client?.name || 'Unknown Client';
+  const handleAssign = async (alertId: string, userId: string) => {
+    setActionError('');
+    try {
+      await assignAlert(alertId, userId || null);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to reassign alert');
+    }
+  };
+
+  const renderOwnership = (alert: Alert, compact = false) => {
+    const open = isOpenStatus(alert.status);
+    const mine = !!user && alert.assignedTo === user.id;
+    const canClaim = open && !alert.assignedTo && can('alert.acknowledge');
+    const canReassign = open && (can('alert.assign') || (mine && can('alert.acknowledge')));
+    const viewers = viewersOf(alert.id);
+
+    return (
+      <div className={`flex flex-wrap items-center gap-2 text-xs ${compact ? 'mt-2' : ''}`}>
+        <span
+          className={`inline-flex items-center px-2 py-0.5 rounded-full ${
+            mine ? 'bg-green-100 text-green-800' : alert.assignedTo ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          <UserCheck className="w-3 h-3 mr-1" />
+          {mine ? 'Assigned to you' : alert.assignedTo ? getStaffName(alert.assignedTo) : 'Unassigned'}
+        </span>
+        {canClaim && (
+          <button
+            onClick={() => handleClaim(alert.id)}
+            className="px-2 py-0.5 rounded bg-gray-800 text-white hover:bg-gray-900"
+          >
+            Claim
+          </button>
+        )}
+        {canReassign && (
+          <select
+            value=""
+            onChange={(e) => handleAssign(alert.id, e.target.value)}
+            className="px-1 py-0.5 border border-gray-300 rounded text-xs text-gray-700 bg-white"
+            aria-label="Reassign alert"
+          >
+            <option value="" disabled>Reassign...</option>
+            {assignableStaff
+              .filter(member => member.id !== alert.assignedTo)
+              .map(member => (
+                <option key={member.id} value={member.id}>{member.name}</option>
+              ))}
+            {alert.assignedTo && <option value="">Unassign</option>}
+          </select>
+        )}
+        {viewers.map(viewer => (
+          <span
+            key={viewer.userId}
+            title={viewer.userId === alert.assignedTo ? 'Handling this alert now' : 'Viewing this alert'}
+            className={`inline-flex items-center px-2 py-0.5 rounded-full ${
+              viewer.userId === alert.assignedTo ? 'bg-green-50 text-green-700' : 'bg-yellow-50 text-yellow-800'
+            }`}
+          >
+            <Eye className="w-3 h-3 mr-1" />
+            {viewer.name} {viewer.userId === alert.assignedTo ? 'handling' : 'viewing'}
+          </span>
+        ))}
+      </div>
+    );
   };
 
-  const activeAlerts = alerts.filter(alert => alert.status === 'active');
-  const acknowledgedAlerts = alerts.filter(alert => alert.status === 'acknowledged');
-  const resolvedAlerts = alerts.filter(alert => alert.status === 'resolved');
+  const renderActions = (alert: Alert, compact = false) => {
+    const actions = nextActions(alert);
+
+    return (
+      <div className={`flex flex-wrap gap-2 ${compact ? 'mt-3' : ''}`}>
+        <button
+          onClick={() => setSelectedAlertId(alert.id)}
+          className={`${compact ? 'px-2 py-1 text-xs rounded' : 'px-4 py-2 text-sm rounded-lg'} transition-colors bg-white border border-gray-300 text-gray-700 hover:bg-gray-50`}
+        >
+          Details
+        </button>
+        {actions.map(status => (
+          <button
+            key={status}
+            onClick={() => handleTransition(alert, status)}
+            className={`${compact ? 'px-2 py-1 text-xs rounded' : 'px-4 py-2 text-sm rounded-lg'} transition-colors ${ACTION_STYLES[status]}`}
+          >
+            {TRANSITION_LABELS[status]}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const renderStageColumn = (status: AlertStatus) => {
+    const stageAlerts = alertsIn(status);
+
+    return (
+      <div key={status} className="bg-white rounded-lg shadow-sm border">
+        <div className={`px-4 py-3 border-b ${STATUS_STYLES[status]}`}>
+          <h3 className="font-medium">
+            {STATUS_LABELS[status]} ({stageAlerts.length})
+          </h3>
+        </div>
+        <div className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+          {stageAlerts.length === 0 && (
+            <p className="p-4 text-sm text-gray-400">None</p>
+          )}
+          {stageAlerts.map((alert) => {
+            const Icon = alertTypeIcon(alertTypeOf(alert));
+            return (
+              <div key={alert.id} className={`p-4 ${alert.duress ? 'bg-red-50 border-l-4 border-red-700' : ''}`}>
+                <div className="flex items-start space-x-3">
+                  {alert.duress ? (
+                    <ShieldAlert className="w-5 h-5 text-red-700 flex-shrink-0" />
+                  ) : (
+                    <Icon className="w-5 h-5 text-gray-500 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 capitalize">
+                      {typeLabel(alert)}
+                      {alert.duress && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-semibold uppercase rounded bg-red-700 text-white">Duress</span>
+                      )}
+                      {renderPriority(alert)}
+                      {renderClientFlags(alert)}
+                    </p>
+                    <p className="text-sm text-gray-500 truncate">{getClientName(alert.clientId)}</p>
+                    <p className="text-xs text-gray-400">{alert.timestamp.toLocaleString()}</p>
+                    {alert.resolutionCode && (
+                      <p className="text-xs text-gray-600 truncate" title={alert.resolutionSummary}>
+                        {RESOLUTION_LABELS[alert.resolutionCode]}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                {renderOwnership(alert, true)}
+                {renderActions(alert, true)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
 
   return (
     <div className="space-y-6">
+      <div className="flex justify-end">
+        <button
+          onClick={() => setShowExport(true)}
+          disabled={alerts.length === 0}
+          className="inline-flex items-center px-4 py-2 bg-white border text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium disabled:opacity-50"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </button>
+      </div>
+
+      {readOnly && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg px-4 py-3 flex items-center space-x-2 text-sm text-gray-600">
+          <Eye className="w-4 h-4" />
+          <span>Read-only view. Your role can monitor alerts but not act on them.</span>
+        </div>
+      )}
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex">
+            <AlertCircle className="w-5 h-5 text-red-400" />
+            <div className="ml-3">
+              <p className="text-sm text-red-800">{actionError}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {escalations.length > 0 && (
+        <div className="bg-red-600 text-white rounded-lg shadow-sm divide-y divide-red-500">
+          {escalations.map((notice) => {
+            const alert = alerts.find(a => a.id === notice.alertId);
+
+            return (
+              <div key={notice.id} className="px-4 py-3 flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <Siren className="w-5 h-5 animate-pulse" />
+                  <div>
+                    <p className="text-sm font-semibold">
+                      {alert ? `${typeLabel(alert).toUpperCase()} alert for ${getClientName(alert.clientId)}` : 'Alert'} still unacknowledged - escalated to level {notice.level}
+                    </p>
+                    <p className="text-xs text-red-100">
+                      {ESCALATION_ACTION_LABELS[notice.action]} - {notice.createdAt.toLocaleTimeString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setSelectedAlertId(notice.alertId)}
+                    className="px-3 py-1 bg-white text-red-700 text-sm font-medium rounded-md hover:bg-red-50"
+                  >
+                    View
+                  </button>
+                  <button
+                    onClick={() => dismissEscalation(notice.id)}
+                    className="p-1 text-red-100 hover:text-white"
+                    title="Dismiss"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Active Alerts */}
       <div className="bg-white rounded-lg shadow-sm border">
         <div className="px-6 py-4 border-b bg-red-50">
@@ -64,19 +388,36 @@ export default function AlertDashboard() {
             </div>
           ) : (
             activeAlerts.map((alert) => {
-              const Icon = getAlertIcon(alert.type);
+              const Icon = alertTypeIcon(alertTypeOf(alert));
               const client = clients.find(c => c.id === alert.clientId);
               
               return (
-                <div key={alert.id} className="p-6 hover:bg-gray-50">
+                <div
+                  key={alert.id}
+                  className={alert.duress ? 'p-6 bg-red-50 border-l-4 border-red-700' : 'p-6 hover:bg-gray-50'}
+                >
+                  {alert.duress && (
+                    <div className="mb-4 bg-red-700 text-white rounded-lg px-4 py-3 flex items-start space-x-3">
+                      <ShieldAlert className="w-5 h-5 flex-shrink-0 mt-0.5 animate-pulse" />
+                      <div>
+                        <p className="font-semibold uppercase tracking-wide text-sm">Duress - client may be under coercion</p>
+                        <p className="text-sm text-red-100">
+                          Raised silently with the duress PIN. The client's screen shows nothing. Do not call the client
+                          directly; dispatch and follow the duress procedure.
+                        </p>
+                      </div>
+                    </div>
+                  )}
                   <div className="flex items-start justify-between">
                     <div className="flex items-start space-x-4">
-                      <div className={`w-12 h-12 rounded-full flex items-center justify-center ${getAlertColor(alert.type, alert.status)}`}>
-                        <Icon className="w-6 h-6" />
+                      <div className={`w-12 h-12 rounded-full flex items-center justify-center ${alert.duress ? 'text-white bg-red-700' : alertTypeColor(alertTypeOf(alert)).icon}`}>
+                        {alert.duress ? <ShieldAlert className="w-6 h-6" /> : <Icon className="w-6 h-6" />}
                       </div>
                       <div className="flex-1">
                         <h4 className="text-lg font-semibold text-gray-900 capitalize">
-                          {alert.type} Alert
+                          {alert.duress ? 'Duress Panic Alert' : `${typeLabel(alert)} Alert`}
+                          {renderPriority(alert)}
+                          {renderClientFlags(alert)}
                         </h4>
                         <div className="mt-2 space-y-2">
                           <div className="flex items-center space-x-2 text-sm text-gray-600">
@@ -93,7 +434,7 @@ export default function AlertDashboard() {
                               Lat: {alert.location.lat.toFixed(4)}, Lng: {alert.location.lng.toFixed(4)}
                             </span>
                           </div>
-                          {client?.phone && (
+                          {client?.phone && !alert.duress && (
                             <div className="flex items-center space-x-2 text-sm text-gray-600">
                               <span className="font-medium">Phone:</span>
                               <a href={`tel:${client.phone}`} className="text-blue-600 hover:underline">
@@ -101,23 +442,19 @@ export default function AlertDashboard() {
                               </a>
                             </div>
                           )}
+                          {client && client.medicalFlags.length > 0 && (
+                            <div className="flex items-center space-x-2 text-sm text-red-700">
+                              <HeartPulse className="w-4 h-4" />
+                              <span>{client.medicalFlags.map(flag => MEDICAL_FLAG_LABELS[flag as MedicalFlag] ?? flag).join(', ')}</span>
+                            </div>
+                          )}
+                          <EscalationCountdown alert={alert} />
+                          {renderOwnership(alert)}
                         </div>
+                        <AlertMediaGallery alertId={alert.id} compact />
                       </div>
                     </div>
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => acknowledgeAlert(alert.id)}
-                        className="px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors text-sm"
-                      >
-                        Acknowledge
-                      </button>
-                      <button
-                        onClick={() => resolveAlert(alert.id)}
-                        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
-                      >
-                        Resolve
-                      </button>
-                    </div>
+                    {renderActions(alert)}
                   </div>
                 </div>
               );
@@ -126,67 +463,42 @@ export default function AlertDashboard() {
         </div>
       </div>
 
-      {/* Recent Activity */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Acknowledged Alerts */}
-        <div className="bg-white rounded-lg shadow-sm border">
-          <div className="px-6 py-4 border-b bg-yellow-50">
-            <h3 className="text-lg font-medium text-yellow-900">
-              Acknowledged ({acknowledgedAlerts.length})
-            </h3>
-          </div>
-          <div className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
-            {acknowledgedAlerts.map((alert) => {
-              const Icon = getAlertIcon(alert.type);
-              return (
-                <div key={alert.id} className="p-4">
-                  <div className="flex items-center space-x-3">
-                    <Icon className="w-5 h-5 text-yellow-600" />
-                    <div className="flex-1">
-                      <p className="font-medium text-gray-900 capitalize">{alert.type}</p>
-                      <p className="text-sm text-gray-500">{getClientName(alert.clientId)}</p>
-                      <p className="text-xs text-gray-400">{alert.timestamp.toLocaleString()}</p>
-                    </div>
-                    <button
-                      onClick={() => resolveAlert(alert.id)}
-                      className="px-3 py-1 bg-green-100 text-green-700 rounded text-sm hover:bg-green-200 transition-colors"
-                    >
-                      Resolve
-                    </button>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
-        </div>
+      {/* In Progress */}
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+        {OPEN_STATUSES.filter(status => status !== 'active').map(renderStageColumn)}
+      </div>
 
-        {/* Resolved Alerts */}
-        <div className="bg-white rounded-lg shadow-sm border">
-          <div className="px-6 py-4 border-b bg-green-50">
-            <h3 className="text-lg font-medium text-green-900">
-              Resolved ({resolvedAlerts.length})
-            </h3>
-          </div>
-          <div className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
-            {resolvedAlerts.map((alert) => {
-              const Icon = getAlertIcon(alert.type);
-              return (
-                <div key={alert.id} className="p-4">
-                  <div className="flex items-center space-x-3">
-                    <Icon className="w-5 h-5 text-gray-400" />
-                    <div className="flex-1">
-                      <p className="font-medium text-gray-600 capitalize">{alert.type}</p>
-                      <p className="text-sm text-gray-500">{getClientName(alert.clientId)}</p>
-                      <p className="text-xs text-gray-400">{alert.timestamp.toLocaleString()}</p>
-                    </div>
-                    <CheckCircle className="w-5 h-5 text-green-500" />
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+      {/* Closed */}
+      <div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {CLOSED_STATUSES.map(renderStageColumn)}
         </div>
+        <p className="mt-2 text-xs text-gray-500">Alerts closed in the last 24 hours. Older incidents are in Incident History.</p>
       </div>
+
+      {selectedAlertId && (
+        <AlertDetailPanel alertId={selectedAlertId} onClose={() => setSelectedAlertId(null)} />
+      )}
+
+      {wrapUp && (
+        <AlertWrapUpModal alertId={wrapUp.alertId} status={wrapUp.status} onClose={() => setWrapUp(null)} />
+      )}
+
+      {showExport && (
+        <ExportModal
+          title="Export Alerts"
+          filename="alerts"
+          columns={alertExportColumns({
+            clientName: alert => clients.find(c => c.id === alert.clientId)?.name,
+            staffName: getStaffName,
+            typeLabel
+          })}
+          rows={[...alerts].sort(byRecency)}
+          positionOf={alert => alert.location}
+          scope={`${alerts.length} alerts on the dashboard: every open alert and those closed in the last 24 hours. Export older incidents from Incident History.`}
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,270 @@
+import { useEffect, useState } from 'react';
+import { useEmergency } from '../context/EmergencyContext';
+import { useAuth } from '../hooks/useAuth';
+import { AlertEvent, describeAlertEvent, fetchAlertEvents } from '../lib/alertEvents';
+import AlertNotes from './AlertNotes';
+import AlertMediaGallery from './AlertMediaGallery';
+import AlertChat from './AlertChat';
+import AlertWrapUpModal from './AlertWrapUpModal';
+import IncidentReport from './IncidentReport';
+import { RESOLUTION_LABELS } from '../lib/resolution';
+import {
+  ACTION_STYLES,
+  CLOSED_STATUSES,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  TRANSITION_LABELS,
+  AlertStatus,
+  allowedTransitions,
+  isOpenStatus,
+} from '../lib/alertLifecycle';
+import { X, AlertCircle, Clock, MapPin, User, ShieldAlert, UserCheck, ClipboardCheck, FileText, BookOpen } from 'lucide-react';
+
+interface AlertDetailPanelProps {
+  alertId: string;
+  onClose: () => void;
+}
+
+export default function AlertDetailPanel({ alertId, onClose }: AlertDetailPanelProps) {
+  const { alerts, clients, transitionAlert, getStaffName, getAlertType } = useEmergency();
+  const { user, can } = useAuth();
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [wrapUpStatus, setWrapUpStatus] = useState<AlertStatus | null>(null);
+  const [showReport, setShowReport] = useState(false);
+
+  const alert = alerts.find(a => a.id === alertId);
+  const client = clients.find(c => c.id === alert?.clientId);
+  const alertType = alert && getAlertType(alert.organizationId, alert.type);
+
+  // Reload the history whenever something the timeline records changes on the alert
+  useEffect(() => {
+    fetchAlertEvents(alertId)
+      .then(setEvents)
+      .catch(err => {
+        console.error('Error loading alert events:', err);
+        setError('Failed to load alert history');
+      });
+  }, [alertId, alert?.status, alert?.escalationLevel, alert?.assignedTo, alert?.priorityBoost, alert?.pressCount]);
+
+  if (!alert) {
+    return null;
+  }
+
+  const handleTransition = async (status: AlertStatus) => {
+    // Closing and reopening ask for a wrap-up or reason first
+    if (CLOSED_STATUSES.includes(status) || CLOSED_STATUSES.includes(alert.status)) {
+      setWrapUpStatus(status);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      await transitionAlert(alert.id, status, note.trim());
+      setNote('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const stages = [
+    { label: 'Raised', at: alert.timestamp, by: undefined },
+    { label: 'Acknowledged', at: alert.acknowledgedAt, by: alert.acknowledgedBy },
+    { label: 'Dispatched', at: alert.dispatchedAt, by: alert.dispatchedBy },
+    { label: 'En Route', at: alert.enRouteAt, by: undefined },
+    { label: 'On Scene', at: alert.onSceneAt, by: undefined },
+    { label: 'Closed', at: alert.resolvedAt, by: alert.resolvedBy },
+  ];
+
+  // Alerts owned by another operator are theirs to progress
+  const ownedByOther = !!alert.assignedTo && alert.assignedTo !== user?.id && !can('alert.assign');
+  const actions = ownedByOther ? [] : allowedTransitions(alert.status, can);
+
+  // Clients close their own alerts when they cancel with their PIN
+  const actorName = (userId: string | undefined) =>
+    userId && userId === alert.clientId ? client?.name ?? 'Client' : getStaffName(userId);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg h-full shadow-xl overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 capitalize flex items-center">
+              {alert.duress && <ShieldAlert className="w-5 h-5 mr-2 text-red-700" />}
+              {alert.duress ? 'Duress Panic Alert' : `${alertType?.label ?? alert.type} Alert`}
+            </h2>
+            <span className={`inline-block mt-1 px-2 py-0.5 text-xs font-medium rounded ${STATUS_STYLES[alert.status]}`}>
+              {STATUS_LABELS[alert.status]}
+            </span>
+            {alert.cancelledByClient && (
+              <span className="inline-block mt-1 ml-2 px-2 py-0.5 text-xs font-semibold uppercase rounded bg-green-100 text-green-800">
+                Cancelled by client
+              </span>
+            )}
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowReport(true)}
+              className="inline-flex items-center px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <FileText className="w-4 h-4 mr-1" />
+              Incident report
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="space-y-2 text-sm text-gray-600">
+            <div className="flex items-center space-x-2">
+              <User className="w-4 h-4" />
+              <span>{client?.name ?? 'Unknown Client'}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <MapPin className="w-4 h-4" />
+              <span>Lat: {alert.location.lat.toFixed(4)}, Lng: {alert.location.lng.toFixed(4)}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <UserCheck className="w-4 h-4" />
+              <span>
+                {alert.assignedTo
+                  ? `Assigned to ${alert.assignedTo === user?.id ? 'you' : getStaffName(alert.assignedTo)}`
+                  : 'Unassigned'}
+              </span>
+            </div>
+            {alert.message && <p className="text-gray-900">{alert.message}</p>}
+          </div>
+
+          {alertType?.sop && (
+            <div className="rounded-md border border-blue-200 bg-blue-50 p-3 text-sm">
+              <p className="font-medium text-blue-900 flex items-center">
+                <BookOpen className="w-4 h-4 mr-2" />
+                Procedure
+              </p>
+              <p className="mt-1 text-blue-800 whitespace-pre-wrap">{alertType.sop}</p>
+            </div>
+          )}
+
+          {alert.resolutionCode && (
+            <div className="rounded-md border border-green-200 bg-green-50 p-3 text-sm">
+              <p className="font-medium text-green-900 flex items-center">
+                <ClipboardCheck className="w-4 h-4 mr-2" />
+                {RESOLUTION_LABELS[alert.resolutionCode]}
+              </p>
+              {alert.resolutionSummary && (
+                <p className="mt-1 text-green-800 whitespace-pre-wrap">{alert.resolutionSummary}</p>
+              )}
+            </div>
+          )}
+
+          {/* Stage summary */}
+          <div className="grid grid-cols-2 gap-3">
+            {stages.map(stage => (
+              <div key={stage.label} className={`rounded-md border p-3 ${stage.at ? 'bg-white' : 'bg-gray-50'}`}>
+                <p className="text-xs font-medium text-gray-500 uppercase">{stage.label}</p>
+                <p className={`text-sm ${stage.at ? 'text-gray-900' : 'text-gray-400'}`}>
+                  {stage.at ? stage.at.toLocaleTimeString() : '—'}
+                </p>
+                {stage.by && <p className="text-xs text-gray-500 truncate">{actorName(stage.by)}</p>}
+              </div>
+            ))}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+              <div className="flex">
+                <AlertCircle className="w-5 h-5 text-red-400" />
+                <div className="ml-3">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {actions.length > 0 && (
+            <div className="space-y-3">
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                placeholder="Optional note for this step"
+              />
+              <div className="flex flex-wrap gap-2">
+                {actions.map(status => (
+                  <button
+                    key={status}
+                    onClick={() => handleTransition(status)}
+                    disabled={saving}
+                    className={`px-4 py-2 text-sm rounded-lg transition-colors disabled:opacity-50 ${ACTION_STYLES[status]}`}
+                  >
+                    {TRANSITION_LABELS[status]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <AlertMediaGallery alertId={alert.id} />
+
+          {/* Duress alerts have no chat: replying would tip off whoever is with the client */}
+          {!alert.duress && (
+            <AlertChat
+              alertId={alert.id}
+              side="staff"
+              open={isOpenStatus(alert.status)}
+              canSend={can('alert.message')}
+              counterpartName={client?.name ?? 'Client'}
+            />
+          )}
+
+          <AlertNotes alertId={alert.id} />
+
+          {/* Timeline */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-4">History</h3>
+            <ol className="relative border-l border-gray-200 ml-2">
+              {events.map(event => {
+                const { title, actor } = describeAlertEvent(event, { clientName: client?.name ?? 'Client', actorName });
+                return (
+                  <li key={event.id} className="mb-6 ml-4">
+                    <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${event.eventType === 'escalated' || event.eventType === 'cancel_rejected' ? 'bg-red-500' : 'bg-gray-400'}`}></span>
+                    <div className="flex items-center space-x-2 text-xs text-gray-500">
+                      <Clock className="w-3 h-3" />
+                      <time>{event.createdAt.toLocaleString()}</time>
+                    </div>
+                    <p className="text-sm font-medium text-gray-900">{title}</p>
+                    <p className="text-xs text-gray-500">{actor}</p>
+                    {event.note && (
+                      <p className="mt-1 text-sm text-gray-700 bg-gray-50 rounded-md px-3 py-2">{event.note}</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        </div>
+      </div>
+
+      {wrapUpStatus && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <AlertWrapUpModal alertId={alert.id} status={wrapUpStatus} onClose={() => setWrapUpStatus(null)} />
+        </div>
+      )}
+
+      {showReport && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <IncidentReport alert={alert} onClose={() => setShowReport(false)} />
+        </div>
+      )}
+    </div>
+  );
+}
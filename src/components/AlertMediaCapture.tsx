@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertMediaKind, MAX_PHOTO_BYTES, MAX_VOICE_NOTE_SECONDS, uploadAlertMedia } from '../lib/alertMedia';
+import { Camera, CheckCircle, Loader2, Mic, RotateCcw, Square, X, AlertCircle } from 'lucide-react';
+
+interface PendingUpload {
+  id: string;
+  kind: AlertMediaKind;
+  file: Blob;
+  durationSeconds?: number;
+  status: 'uploading' | 'done' | 'failed';
+}
+
+interface AlertMediaCaptureProps {
+  alertId: string;
+  onClose: () => void;
+}
+
+// Optional step after an alert is raised. The alert has already been sent, so
+// uploads run in the background and a failure only affects the attachment.
+export default function AlertMediaCapture({ alertId, onClose }: AlertMediaCaptureProps) {
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [recordingSeconds, setRecordingSeconds] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval>>();
+
+  const stopRecording = () => {
+    clearInterval(timerRef.current);
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  };
+
+  // Release the microphone if the step is closed mid-recording
+  useEffect(() => () => {
+    clearInterval(timerRef.current);
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  const upload = (pending: PendingUpload) => {
+    setUploads(prev => (prev.some(u => u.id === pending.id)
+      ? prev.map(u => (u.id === pending.id ? { ...u, status: 'uploading' } : u))
+      : [...prev, pending]));
+
+    uploadAlertMedia(alertId, pending.file, pending.kind, pending.durationSeconds)
+      .then(() => {
+        setUploads(prev => prev.map(u => (u.id === pending.id ? { ...u, status: 'done' } : u)));
+      })
+      .catch(err => {
+        console.error('Error uploading alert media:', err);
+        setUploads(prev => prev.map(u => (u.id === pending.id ? { ...u, status: 'failed' } : u)));
+      });
+  };
+
+  const handlePhoto = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_PHOTO_BYTES) {
+      setError(`Photos must be under ${MAX_PHOTO_BYTES / 1024 / 1024} MB`);
+      return;
+    }
+
+    setError('');
+    upload({ id: crypto.randomUUID(), kind: 'photo', file, status: 'uploading' });
+  };
+
+  const startRecording = async () => {
+    setError('');
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error('Error starting voice note:', err);
+      setError('Microphone access is needed to record a voice note');
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      setRecordingSeconds(null);
+
+      const file = new Blob(chunks, { type: recorder.mimeType });
+      if (file.size > 0) {
+        upload({
+          id: crypto.randomUUID(),
+          kind: 'audio',
+          file,
+          durationSeconds: Math.round((Date.now() - startedAt) / 1000),
+          status: 'uploading'
+        });
+      }
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setRecordingSeconds(0);
+
+    timerRef.current = setInterval(() => {
+      const seconds = Math.floor((Date.now() - startedAt) / 1000);
+      setRecordingSeconds(seconds);
+      if (seconds >= MAX_VOICE_NOTE_SECONDS) stopRecording();
+    }, 250);
+  };
+
+  const recording = recordingSeconds !== null;
+  const canRecord = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="font-medium text-gray-900">Add a photo or voice note</p>
+          <p className="text-sm text-gray-500">Optional. Your alert has already been sent.</p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors" aria-label="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="flex">
+            <AlertCircle className="w-5 h-5 text-red-400" />
+            <p className="ml-3 text-sm text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={recording}
+          className="flex flex-col items-center justify-center p-4 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          <Camera className="w-8 h-8 text-gray-700 mb-1" />
+          <span className="text-sm text-gray-700">Photo</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handlePhoto}
+          className="hidden"
+        />
+
+        {recording ? (
+          <button
+            onClick={stopRecording}
+            className="flex flex-col items-center justify-center p-4 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+          >
+            <Square className="w-8 h-8 mb-1" />
+            <span className="text-sm">
+              Stop ({MAX_VOICE_NOTE_SECONDS - recordingSeconds}s left)
+            </span>
+          </button>
+        ) : (
+          <button
+            onClick={startRecording}
+            disabled={!canRecord}
+            className="flex flex-col items-center justify-center p-4 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <Mic className="w-8 h-8 text-gray-700 mb-1" />
+            <span className="text-sm text-gray-700">{canRecord ? 'Voice note' : 'Voice notes unavailable'}</span>
+          </button>
+        )}
+      </div>
+
+      {uploads.length > 0 && (
+        <ul className="space-y-2">
+          {uploads.map(pending => (
+            <li key={pending.id} className="flex items-center justify-between text-sm">
+              <span className="text-gray-700">
+                {pending.kind === 'photo' ? 'Photo' : `Voice note (${pending.durationSeconds}s)`}
+              </span>
+              {pending.status === 'uploading' && (
+                <span className="flex items-center text-gray-500">
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  Sending...
+                </span>
+              )}
+              {pending.status === 'done' && (
+                <span className="flex items-center text-green-700">
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Sent
+                </span>
+              )}
+              {pending.status === 'failed' && (
+                <button onClick={() => upload(pending)} className="flex items-center text-red-600 hover:text-red-700">
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Failed - retry
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { AlertMedia, AlertMediaRow, fetchAlertMedia, formatAlertMedia, signAlertMedia } from '../lib/alertMedia';
+import { Image, Mic } from 'lucide-react';
+
+interface AlertMediaGalleryProps {
+  alertId: string;
+  // Smaller thumbnails for dashboard cards
+  compact?: boolean;
+}
+
+export default function AlertMediaGallery({ alertId, compact = false }: AlertMediaGalleryProps) {
+  const [media, setMedia] = useState<AlertMedia[]>([]);
+  const [enlarged, setEnlarged] = useState<AlertMedia | null>(null);
+
+  useEffect(() => {
+    setMedia([]);
+    fetchAlertMedia(alertId)
+      .then(setMedia)
+      .catch(err => console.error('Error loading alert media:', err));
+
+    const channel = supabase
+      .channel(`alert_media:${alertId}`)
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'alert_media', filter: `alert_id=eq.${alertId}` },
+        (payload) => {
+          signAlertMedia([formatAlertMedia(payload.new as AlertMediaRow)])
+            .then(([item]) => setMedia(prev => (prev.some(m => m.id === item.id) ? prev : [...prev, item])))
+            .catch(err => console.error('Error loading alert media:', err));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [alertId]);
+
+  if (media.length === 0) return null;
+
+  const photos = media.filter(m => m.kind === 'photo');
+  const voiceNotes = media.filter(m => m.kind === 'audio');
+
+  return (
+    <div className={compact ? 'mt-3 space-y-2' : 'space-y-3'}>
+      {!compact && (
+        <h3 className="text-sm font-medium text-gray-900 flex items-center">
+          <Image className="w-4 h-4 mr-2" />
+          Photos and voice notes ({media.length})
+        </h3>
+      )}
+
+      {photos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {photos.map(photo => (
+            <button
+              key={photo.id}
+              onClick={() => setEnlarged(photo)}
+              className={`${compact ? 'w-16 h-16' : 'w-24 h-24'} rounded-md overflow-hidden border bg-gray-100`}
+              title={`Sent ${photo.createdAt.toLocaleTimeString()}`}
+            >
+              {photo.url ? (
+                <img src={photo.url} alt="Photo from the client" className="w-full h-full object-cover" />
+              ) : (
+                <Image className="w-6 h-6 m-auto text-gray-400" />
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {voiceNotes.map(note => (
+        <div key={note.id} className="flex items-center space-x-2">
+          <Mic className="w-4 h-4 text-gray-500 flex-shrink-0" />
+          {note.url ? (
+            <audio controls preload="none" src={note.url} className={compact ? 'h-8 w-full max-w-xs' : 'w-full'} />
+          ) : (
+            <span className="text-sm text-gray-500">Voice note unavailable</span>
+          )}
+          {note.durationSeconds !== undefined && (
+            <span className="text-xs text-gray-500 flex-shrink-0">{note.durationSeconds}s</span>
+          )}
+        </div>
+      ))}
+
+      {enlarged?.url && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 px-4"
+          onClick={(e) => {
+            e.stopPropagation();
+            setEnlarged(null);
+          }}
+        >
+          <img src={enlarged.url} alt="Photo from the client" className="max-h-full max-w-full rounded-lg" />
+        </div>
+      )}
+    </div>
+  );
+}
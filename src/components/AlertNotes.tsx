@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { useEmergency } from '../context/EmergencyContext';
+import { AlertNote, AlertNoteRow, addAlertNote, fetchAlertNotes, formatAlertNote } from '../lib/alertNotes';
+import { MessageSquare, Send } from 'lucide-react';
+
+export default function AlertNotes({ alertId }: { alertId: string }) {
+  const { user, can } = useAuth();
+  const { getStaffName } = useEmergency();
+  const [notes, setNotes] = useState<AlertNote[]>([]);
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Our own notes come back from the insert and again over realtime
+  const appendNote = (note: AlertNote) => {
+    setNotes(prev => (prev.some(n => n.id === note.id) ? prev : [...prev, note]));
+  };
+
+  useEffect(() => {
+    setNotes([]);
+    fetchAlertNotes(alertId)
+      .then(setNotes)
+      .catch(err => {
+        console.error('Error loading alert notes:', err);
+        setError('Failed to load notes');
+      });
+
+    const channel = supabase
+      .channel(`alert_notes:${alertId}`)
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'alert_notes', filter: `alert_id=eq.${alertId}` },
+        (payload) => {
+          const note = formatAlertNote(payload.new as AlertNoteRow);
+          setNotes(prev => (prev.some(n => n.id === note.id) ? prev : [...prev, note]));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [alertId]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [notes.length]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setSaving(true);
+    setError('');
+
+    try {
+      appendNote(await addAlertNote(alertId, body));
+      setBody('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 mb-3 flex items-center">
+        <MessageSquare className="w-4 h-4 mr-2" />
+        Notes ({notes.length})
+      </h3>
+
+      <div className="space-y-3 max-h-72 overflow-y-auto">
+        {notes.length === 0 && <p className="text-sm text-gray-400">No notes yet</p>}
+        {notes.map(note => (
+          <div key={note.id} className="bg-gray-50 rounded-md px-3 py-2">
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span className="font-medium text-gray-700">
+                {note.authorId === user?.id ? 'You' : getStaffName(note.authorId)}
+              </span>
+              <time>{note.createdAt.toLocaleString()}</time>
+            </div>
+            <p className="mt-1 text-sm text-gray-900 whitespace-pre-wrap">{note.body}</p>
+          </div>
+        ))}
+        <div ref={endRef} />
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {can('alert.note') && (
+        <form onSubmit={handleSubmit} className="mt-3 flex items-end space-x-2">
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit(e);
+            }}
+            rows={2}
+            maxLength={2000}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            placeholder="Add a note for other operators"
+          />
+          <button
+            type="submit"
+            disabled={saving || !body.trim()}
+            className="p-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+            title="Add note"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
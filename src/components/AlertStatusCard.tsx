@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { Alert, useEmergency } from '../context/EmergencyContext';
+import { clientProgress, fetchResponderName, responderUpdate } from '../lib/alertProgress';
+import { isOpenStatus } from '../lib/alertLifecycle';
+import { CheckCircle, Circle, Loader2, MinusCircle, UserCheck, X } from 'lucide-react';
+
+interface AlertStatusCardProps {
+  alert: Alert;
+  // Only offered once the alert is closed
+  onDismiss?: () => void;
+}
+
+const STEP_ICONS = {
+  done: <CheckCircle className="w-5 h-5 text-green-600" />,
+  current: <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />,
+  pending: <Circle className="w-5 h-5 text-gray-300" />,
+  skipped: <MinusCircle className="w-5 h-5 text-gray-300" />,
+};
+
+export default function AlertStatusCard({ alert, onDismiss }: AlertStatusCardProps) {
+  const { getAlertType } = useEmergency();
+  const [responderName, setResponderName] = useState<string>();
+
+  const open = isOpenStatus(alert.status);
+  const steps = clientProgress(alert);
+  const update = responderUpdate(alert);
+  const typeLabel = getAlertType(alert.organizationId, alert.type)?.label ?? alert.type;
+
+  // The handler can change as the alert is picked up, dispatched or reassigned
+  useEffect(() => {
+    fetchResponderName(alert.id)
+      .then(setResponderName)
+      .catch(err => console.error('Error loading responder name:', err));
+  }, [alert.id, alert.assignedTo, alert.acknowledgedBy, alert.dispatchedBy]);
+
+  return (
+    <div className={`rounded-lg border-2 p-6 ${open ? 'bg-white border-red-300' : 'bg-gray-50 border-gray-200'}`}>
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {open ? `Your ${typeLabel.toLowerCase()} alert is live` : `Your ${typeLabel.toLowerCase()} alert is closed`}
+          </h3>
+          <p className="text-sm text-gray-500">
+            {responderName
+              ? <span className="inline-flex items-center"><UserCheck className="w-4 h-4 mr-1" />{responderName} from the control room {open ? 'is handling' : 'handled'} it</span>
+              : open ? 'Waiting for the control room to pick it up' : `Sent ${alert.timestamp.toLocaleString()}`}
+          </p>
+        </div>
+        {!open && onDismiss && (
+          <button onClick={onDismiss} className="text-gray-400 hover:text-gray-600 transition-colors" aria-label="Dismiss">
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      <ol className="space-y-3">
+        {steps.map((step, index) => (
+          <li key={step.label} className="flex items-start space-x-3">
+            <span className="flex-shrink-0">{STEP_ICONS[step.state]}</span>
+            <div className="flex-1 flex items-baseline justify-between">
+              <div>
+                <p className={`text-sm font-medium ${step.state === 'done' ? 'text-gray-900' : step.state === 'current' ? 'text-blue-700' : 'text-gray-400'}`}>
+                  {step.label}
+                </p>
+                {index === 2 && update && <p className="text-xs text-gray-600">{update}</p>}
+                {step.state === 'skipped' && <p className="text-xs text-gray-400">Not needed</p>}
+              </div>
+              {step.at && (
+                <time className="text-xs text-gray-500">
+                  {step.at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </time>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {!open && (
+        <p className="mt-4 text-sm text-gray-600">If you still need help, press an emergency button again.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import { useEmergency } from '../context/EmergencyContext';
+import {
+  ALERT_TYPE_COLORS,
+  ALERT_TYPE_ICONS,
+  AlertType,
+  PANIC_ALERT_TYPE,
+  alertTypeColor,
+  alertTypeIcon,
+  saveAlertType,
+} from '../lib/alertTypes';
+import { ALARM_SOUNDS, AlarmSound, playAlarm } from '../lib/alarm';
+import { AlertCircle, Pencil, Plus, Save, Tags, Volume2, X } from 'lucide-react';
+
+type Draft = Omit<AlertType, 'id' | 'organizationId'> & { id?: string };
+
+const EMPTY_DRAFT: Draft = {
+  key: '',
+  label: '',
+  description: '',
+  icon: 'alert-triangle',
+  color: 'red',
+  defaultPriority: 50,
+  alarmSound: 'beep',
+  sop: '',
+  sortOrder: 0,
+  active: true,
+};
+
+// "Gas leak" -> "gas_leak"
+const toKey = (label: string) =>
+  label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '');
+
+export default function AlertTypeSettings() {
+  const { alertTypes, organizationId, organizations, refreshData } = useEmergency();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!organizationId) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-8 text-center text-gray-500">
+        Select an organization to configure alert types
+      </div>
+    );
+  }
+
+  const organization = organizations.find(o => o.id === organizationId);
+  const types = alertTypes.filter(t => t.organizationId === organizationId);
+  const editingExisting = !!draft?.id;
+
+  const startAdd = () => {
+    setDraft({ ...EMPTY_DRAFT, sortOrder: Math.max(0, ...types.map(t => t.sortOrder)) + 1 });
+    setError('');
+  };
+
+  const startEdit = (alertType: AlertType) => {
+    setDraft({ ...alertType });
+    setError('');
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    setDraft(prev => {
+      if (!prev) return prev;
+      if (type === 'number') return { ...prev, [name]: Math.max(0, parseInt(value, 10) || 0) };
+      // New types take their key from the label until it is saved
+      if (name === 'label' && !prev.id) return { ...prev, label: value, key: toKey(value) };
+      return { ...prev, [name]: value };
+    });
+  };
+
+  const save = async (alertType: Draft) => {
+    if (!alertType.label.trim() || !alertType.key) {
+      setError('Alert types need a label');
+      return;
+    }
+
+    if (!alertType.id && types.some(t => t.key === alertType.key)) {
+      setError(`There is already an alert type with the key "${alertType.key}"`);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      await saveAlertType({ ...alertType, organizationId });
+      await refreshData();
+      setDraft(null);
+    } catch (err) {
+      console.error('Error saving alert type:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save alert type');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Two seconds is enough to tell the sounds apart
+  const previewSound = (sound: AlarmSound) => {
+    const stop = playAlarm(sound, 1);
+    setTimeout(stop, 2000);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft) save(draft);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Alert Types</h2>
+          <p className="text-sm text-gray-500">
+            The buttons clients see{organization ? ` for ${organization.name}` : ''}, how their alerts look to operators
+            and the procedure to follow. Types are deactivated rather than deleted so past alerts keep their type.
+          </p>
+        </div>
+        <button
+          onClick={startAdd}
+          className="inline-flex items-center px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Type
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex">
+            <AlertCircle className="w-5 h-5 text-red-400" />
+            <div className="ml-3">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border">
+          <div className="px-6 py-4 border-b bg-gray-50 flex items-center justify-between">
+            <h3 className="text-md font-medium text-gray-900 flex items-center">
+              <Tags className="w-4 h-4 mr-2" />
+              {editingExisting ? `Edit ${draft.label}` : 'New alert type'}
+            </h3>
+            <button type="button" onClick={() => setDraft(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Label *</span>
+              <input name="label" value={draft.label} onChange={handleChange} className={inputClass} placeholder="e.g. Fire" />
+              <span className="block text-xs text-gray-500 mt-1">Key: {draft.key || '—'}{editingExisting ? ' (fixed)' : ''}</span>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Description</span>
+              <input name="description" value={draft.description} onChange={handleChange} className={inputClass} placeholder="Shown on the client's button" />
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Default priority</span>
+              <input type="number" min={0} name="defaultPriority" value={draft.defaultPriority} onChange={handleChange} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Sort order</span>
+              <input type="number" min={0} name="sortOrder" value={draft.sortOrder} onChange={handleChange} className={inputClass} />
+            </label>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Icon</span>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(ALERT_TYPE_ICONS).map(([name, Icon]) => (
+                  <button
+                    key={name}
+                    type="button"
+                    title={name}
+                    onClick={() => setDraft({ ...draft, icon: name })}
+                    className={`p-2 rounded-md border ${draft.icon === name ? 'border-red-500 bg-red-50 text-red-600' : 'border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    <Icon className="w-5 h-5" />
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Colour</span>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(ALERT_TYPE_COLORS).map(([name, colors]) => (
+                  <button
+                    key={name}
+                    type="button"
+                    title={name}
+                    aria-label={name}
+                    onClick={() => setDraft({ ...draft, color: name })}
+                    className={`w-8 h-8 rounded-full ${colors.marker} ${draft.color === name ? 'ring-2 ring-offset-2 ring-gray-900' : ''}`}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Alarm sound</span>
+              <div className="flex space-x-2">
+                <select
+                  value={draft.alarmSound}
+                  onChange={(e) => setDraft({ ...draft, alarmSound: e.target.value as AlarmSound })}
+                  className={inputClass}
+                >
+                  {Object.entries(ALARM_SOUNDS).map(([sound, { label }]) => (
+                    <option key={sound} value={sound}>{label}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => previewSound(draft.alarmSound)}
+                  className="p-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                  title="Play sound"
+                >
+                  <Volume2 className="w-5 h-5" />
+                </button>
+              </div>
+              <span className="block text-xs text-gray-500 mt-1">Loops on operators' consoles until the alert is acknowledged</span>
+            </div>
+
+            <label className="block md:col-span-2">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Standard operating procedure</span>
+              <textarea
+                name="sop"
+                value={draft.sop}
+                onChange={handleChange}
+                rows={4}
+                className={inputClass}
+                placeholder="Steps operators should follow for this type of alert"
+              />
+            </label>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.active}
+                disabled={draft.key === PANIC_ALERT_TYPE}
+                onChange={(e) => setDraft({ ...draft, active: e.target.checked })}
+                className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+              />
+              <span>
+                Active{draft.key === PANIC_ALERT_TYPE ? ' (panic is always available for duress alerts)' : ''}
+              </span>
+            </label>
+          </div>
+
+          <div className="px-6 py-4 border-t flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border divide-y divide-gray-200">
+        {types.length === 0 && (
+          <p className="p-6 text-sm text-gray-500">No alert types</p>
+        )}
+        {types.map(alertType => {
+          const Icon = alertTypeIcon(alertType);
+
+          return (
+            <div key={alertType.id} className={`p-4 flex items-center space-x-4 ${alertType.active ? '' : 'opacity-60'}`}>
+              <div className={`w-10 h-10 rounded-full flex items-center justify-center ${alertTypeColor(alertType).icon}`}>
+                <Icon className="w-5 h-5" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900">
+                  {alertType.label}
+                  <span className="ml-2 text-xs font-normal text-gray-500">{alertType.key}</span>
+                  {!alertType.active && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-600">Inactive</span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500 truncate">{alertType.description || 'No description'}</p>
+              </div>
+              <span className="text-sm text-gray-600">Priority {alertType.defaultPriority}</span>
+              {alertType.key !== PANIC_ALERT_TYPE && (
+                <button
+                  onClick={() => save({ ...alertType, active: !alertType.active })}
+                  disabled={saving}
+                  className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                >
+                  {alertType.active ? 'Deactivate' : 'Activate'}
+                </button>
+              )}
+              <button
+                onClick={() => startEdit(alertType)}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+                aria-label={`Edit ${alertType.label}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
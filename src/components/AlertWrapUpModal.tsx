@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { useEmergency } from '../context/EmergencyContext';
+import { AlertStatus, STATUS_LABELS, TRANSITION_LABELS } from '../lib/alertLifecycle';
+import { ResolutionCode, resolutionCodesFor } from '../lib/resolution';
+import { X, ClipboardCheck, RotateCcw, AlertCircle } from 'lucide-react';
+
+interface AlertWrapUpModalProps {
+  alertId: string;
+  // A closing status asks for the wrap-up; 'active' reopens the alert and asks for a reason
+  status: AlertStatus;
+  onClose: () => void;
+}
+
+export default function AlertWrapUpModal({ alertId, status, onClose }: AlertWrapUpModalProps) {
+  const { alerts, clients, closeAlert, transitionAlert, getAlertType } = useEmergency();
+  const codes = resolutionCodesFor(status);
+  const [resolutionCode, setResolutionCode] = useState<ResolutionCode | ''>(codes.length === 1 ? codes[0].code : '');
+  const [summary, setSummary] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const alert = alerts.find(a => a.id === alertId);
+  const client = clients.find(c => c.id === alert?.clientId);
+  const reopening = status === 'active';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reopening && !resolutionCode) {
+      setError('Choose a resolution code');
+      return;
+    }
+
+    if (!summary.trim()) {
+      setError(reopening ? 'Enter a reason for reopening' : 'Enter a summary of the incident');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      if (reopening) {
+        await transitionAlert(alertId, 'active', summary);
+      } else {
+        await closeAlert(alertId, status, resolutionCode as ResolutionCode, summary);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update alert');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 px-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            {reopening ? (
+              <RotateCcw className="w-5 h-5 mr-2 text-red-600" />
+            ) : (
+              <ClipboardCheck className="w-5 h-5 mr-2 text-green-600" />
+            )}
+            {reopening ? 'Reopen Alert' : `Close as ${STATUS_LABELS[status]}`}
+          </h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {alert && (
+            <p className="text-sm text-gray-600 capitalize">
+              {getAlertType(alert.organizationId, alert.type)?.label ?? alert.type} alert from {client?.name ?? 'Unknown Client'}, raised {alert.timestamp.toLocaleString()}
+            </p>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+              <div className="flex">
+                <AlertCircle className="w-5 h-5 text-red-400" />
+                <div className="ml-3">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {!reopening && (
+            <div>
+              <label htmlFor="resolution_code" className="block text-sm font-medium text-gray-700 mb-1">
+                Resolution code *
+              </label>
+              <select
+                id="resolution_code"
+                value={resolutionCode}
+                onChange={(e) => setResolutionCode(e.target.value as ResolutionCode)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              >
+                <option value="" disabled>Choose a code...</option>
+                {codes.map(({ code, label }) => (
+                  <option key={code} value={code}>{label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="wrap_up_summary" className="block text-sm font-medium text-gray-700 mb-1">
+              {reopening ? 'Reason for reopening *' : 'Summary *'}
+            </label>
+            <textarea
+              id="wrap_up_summary"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              placeholder={reopening ? 'Why does this alert need attention again?' : 'What happened and how it was handled'}
+            />
+          </div>
+
+          <div className="flex space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : TRANSITION_LABELS[status]}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
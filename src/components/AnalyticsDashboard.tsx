@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react';
+import { useEmergency } from '../context/EmergencyContext';
+import { alertTypeColor, alertTypeLabel } from '../lib/alertTypes';
+import {
+  ANALYTICS_RANGES,
+  Analytics,
+  AnalyticsRange,
+  WEEKDAY_LABELS,
+  analyticsBuckets,
+  fetchAnalytics,
+  formatDuration,
+} from '../lib/analytics';
+import { AlertCircle, BarChart3 } from 'lucide-react';
+
+// Full class names so Tailwind keeps them in the build
+const HEAT_LEVELS = ['bg-gray-50', 'bg-red-100', 'bg-red-200', 'bg-red-300', 'bg-red-400', 'bg-red-500', 'bg-red-600'];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatBucket = (bucket: string, range: AnalyticsRange) =>
+  new Date(`${bucket}T00:00:00`).toLocaleDateString(undefined, ANALYTICS_RANGES[range].bucket === 'month'
+    ? { month: 'short', year: '2-digit' }
+    : { day: 'numeric', month: 'short' });
+
+export default function AnalyticsDashboard() {
+  const { organizationId, alertTypes, clients, getStaffName } = useEmergency();
+  const [range, setRange] = useState<AnalyticsRange>('30d');
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+
+    fetchAnalytics(organizationId, range)
+      .then(result => {
+        if (!cancelled) setAnalytics(result);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading analytics:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load analytics');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [organizationId, range]);
+
+  // Super admins see every tenant's types; the charts group by key
+  const typeOf = (key: string) =>
+    alertTypes.find(t => t.key === key && (!organizationId || t.organizationId === organizationId));
+
+  const getClientName = (clientId: string) => clients.find(c => c.id === clientId)?.name || 'Unknown Client';
+
+  const renderByType = ({ byType }: Analytics) => {
+    const buckets = analyticsBuckets(range);
+    const types = [...new Set(byType.map(row => row.type))];
+    const countOf = (bucket: string, type: string) =>
+      byType.find(row => row.bucket === bucket && row.type === type)?.alerts ?? 0;
+    const totals = buckets.map(bucket => types.reduce((sum, type) => sum + countOf(bucket, type), 0));
+    const max = Math.max(1, ...totals);
+    // Keep the axis readable on the 30 day range
+    const labelEvery = Math.ceil(buckets.length / 12);
+
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h4 className="text-sm font-medium text-gray-900 mb-4">Alerts by type</h4>
+        {types.length === 0 ? (
+          <p className="text-sm text-gray-500">No alerts in this period</p>
+        ) : (
+          <>
+            <div className="flex items-end h-48 space-x-1">
+              {buckets.map((bucket, index) => (
+                <div
+                  key={bucket}
+                  className="flex-1 flex flex-col-reverse h-full"
+                  title={`${formatBucket(bucket, range)}: ${totals[index]} alerts`}
+                >
+                  {types.map(type => {
+                    const count = countOf(bucket, type);
+                    if (count === 0) return null;
+                    return (
+                      <div
+                        key={type}
+                        className={alertTypeColor(typeOf(type)).marker}
+                        style={{ height: `${(count / max) * 100}%` }}
+                      />
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+            <div className="flex space-x-1 mt-1">
+              {buckets.map((bucket, index) => (
+                <span key={bucket} className="flex-1 text-center text-[10px] text-gray-400 whitespace-nowrap overflow-hidden">
+                  {index % labelEvery === 0 ? formatBucket(bucket, range) : ''}
+                </span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-4 mt-4">
+              {types.map(type => (
+                <span key={type} className="inline-flex items-center text-xs text-gray-600">
+                  <span className={`w-3 h-3 rounded-sm mr-1 ${alertTypeColor(typeOf(type)).marker}`} />
+                  {alertTypeLabel(typeOf(type), type)} ({byType.filter(row => row.type === type).reduce((sum, row) => sum + row.alerts, 0)})
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderHeatmap = ({ heatmap }: Analytics) => {
+    const countAt = (weekday: number, hour: number) =>
+      heatmap.find(cell => cell.weekday === weekday && cell.hour === hour)?.alerts ?? 0;
+    const max = Math.max(1, ...heatmap.map(cell => cell.alerts));
+
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h4 className="text-sm font-medium text-gray-900 mb-4">When alerts come in</h4>
+        <div className="overflow-x-auto">
+          <table className="border-separate" style={{ borderSpacing: 2 }}>
+            <thead>
+              <tr>
+                <th />
+                {HOURS.map(hour => (
+                  <th key={hour} className="text-[10px] font-normal text-gray-400 w-6">
+                    {hour % 3 === 0 ? String(hour).padStart(2, '0') : ''}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(WEEKDAY_LABELS).map(([weekday, label]) => (
+                <tr key={weekday}>
+                  <th className="pr-2 text-xs font-normal text-gray-500 text-left">{label}</th>
+                  {HOURS.map(hour => {
+                    const count = countAt(Number(weekday), hour);
+                    const level = count === 0 ? 0 : Math.ceil((count / max) * (HEAT_LEVELS.length - 1));
+                    return (
+                      <td
+                        key={hour}
+                        className={`w-6 h-6 rounded-sm ${HEAT_LEVELS[level]}`}
+                        title={`${label} ${String(hour).padStart(2, '0')}:00 - ${count} alerts`}
+                      />
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">Hours are in your time zone.</p>
+      </div>
+    );
+  };
+
+  const renderResponseTimes = ({ responseTimes }: Analytics) => {
+    const stats = [
+      { label: 'Median time to acknowledge', value: responseTimes.acknowledgeMedian, basis: `${responseTimes.acknowledged} of ${responseTimes.alerts} alerts acknowledged` },
+      { label: '90th percentile to acknowledge', value: responseTimes.acknowledgeP90, basis: '9 in 10 were acknowledged faster' },
+      { label: 'Median time to resolve', value: responseTimes.resolveMedian, basis: `${responseTimes.resolved} alerts resolved` },
+      { label: '90th percentile to resolve', value: responseTimes.resolveP90, basis: 'False alarms and cancellations excluded' },
+    ];
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white rounded-lg shadow-sm border p-4">
+            <p className="text-sm font-medium text-gray-500">{stat.label}</p>
+            <p className="text-2xl font-semibold text-gray-900">{formatDuration(stat.value)}</p>
+            <p className="text-xs text-gray-500">{stat.basis}</p>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderFalseAlarms = ({ falseAlarms }: Analytics) => {
+    const flagged = falseAlarms.filter(row => row.falseAlarms > 0).slice(0, 10);
+
+    return (
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="px-6 py-4 border-b">
+          <h4 className="text-sm font-medium text-gray-900">False alarms by client</h4>
+        </div>
+        {flagged.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No false alarms in this period</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">False alarms</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {flagged.map(row => (
+                <tr key={row.clientId}>
+                  <td className="px-6 py-3 text-sm text-gray-900">{getClientName(row.clientId)}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500 text-right">{row.falseAlarms} of {row.alerts}</td>
+                  <td className={`px-6 py-3 text-sm text-right font-medium ${row.rate >= 0.5 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {Math.round(row.rate * 100)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    );
+  };
+
+  const renderWorkload = ({ workload }: Analytics) => (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="px-6 py-4 border-b">
+        <h4 className="text-sm font-medium text-gray-900">Operator workload</h4>
+      </div>
+      {workload.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500">No alerts handled in this period</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Operator</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Alerts</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Acknowledged</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Dispatched</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Closed</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Assigned</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Median to acknowledge</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {workload.map(row => (
+                <tr key={row.userId}>
+                  <td className="px-6 py-3 text-sm text-gray-900">{getStaffName(row.userId)}</td>
+                  <td className="px-6 py-3 text-sm text-gray-900 text-right font-medium">{row.alerts}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500 text-right">{row.acknowledged}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500 text-right">{row.dispatched}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500 text-right">{row.closed}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500 text-right">{row.assigned}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500 text-right">{formatDuration(row.acknowledgeMedian)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <BarChart3 className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-medium text-gray-900">Analytics</h3>
+        </div>
+        <select
+          value={range}
+          onChange={(e) => setRange(e.target.value as AnalyticsRange)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+        >
+          {(Object.keys(ANALYTICS_RANGES) as AnalyticsRange[]).map(key => (
+            <option key={key} value={key}>{ANALYTICS_RANGES[key].label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex">
+            <AlertCircle className="w-5 h-5 text-red-400" />
+            <div className="ml-3">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {loading && !analytics && <div className="p-8 text-center text-gray-500">Loading analytics...</div>}
+
+      {analytics && (
+        <div className={`space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          {renderResponseTimes(analytics)}
+          {renderByType(analytics)}
+          {renderHeatmap(analytics)}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {renderFalseAlarms(analytics)}
+            {renderWorkload(analytics)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AuditEntry,
+  AuditEntityType,
+  AuditFilters,
+  AUDIT_PAGE_SIZE,
+  changedFields,
+  fetchAuditLog,
+  verifyAuditLog,
+} from '../lib/audit';
+import { AlertCircle, ChevronDown, ChevronRight, Filter, ShieldCheck, ShieldAlert } from 'lucide-react';
+
+const ENTITY_TYPES: { value: AuditEntityType; label: string }[] = [
+  { value: 'client', label: 'Clients' },
+  { value: 'alert', label: 'Alerts' },
+  { value: 'role', label: 'Staff roles' },
+  { value: 'invite', label: 'Invites' },
+  { value: 'organization', label: 'Organizations' },
+];
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export default function AuditLog() {
+  const [filters, setFilters] = useState<AuditFilters>({ actor: '', entityType: '', entityId: '', from: '', to: '' });
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(filters);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [verification, setVerification] = useState<{ brokenAt: number | null } | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError('');
+
+      try {
+        const rows = await fetchAuditLog(appliedFilters, page);
+        setEntries(prev => (page === 0 ? rows : [...prev, ...rows]));
+        setHasMore(rows.length === AUDIT_PAGE_SIZE);
+      } catch (err) {
+        console.error('Error loading audit log:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load audit log');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [appliedFilters, page]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(0);
+    setAppliedFilters({ ...filters, actor: filters.actor?.trim(), entityId: filters.entityId?.trim() });
+  };
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      setVerification({ brokenAt: await verifyAuditLog() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify audit log');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="px-6 py-4 border-b bg-gray-50">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Audit Log</h3>
+            <p className="text-sm text-gray-500">Every change made by staff, newest first</p>
+          </div>
+          <button
+            onClick={handleVerify}
+            disabled={verifying}
+            className="inline-flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            {verifying ? 'Verifying...' : 'Verify integrity'}
+          </button>
+        </div>
+
+        {verification && (
+          verification.brokenAt === null ? (
+            <div className="mt-4 bg-green-50 border border-green-200 rounded-md p-3 flex items-center space-x-2 text-sm text-green-800">
+              <ShieldCheck className="w-4 h-4" />
+              <span>Hash chain intact. No entries have been altered or removed.</span>
+            </div>
+          ) : (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3 flex items-center space-x-2 text-sm text-red-800">
+              <ShieldAlert className="w-4 h-4" />
+              <span>Hash chain broken at entry #{verification.brokenAt}. The log has been tampered with.</span>
+            </div>
+          )
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="px-6 py-4 border-b grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-500 mb-1">Actor email</label>
+          <input name="actor" value={filters.actor} onChange={handleChange} className={inputClass} placeholder="operator@example.com" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Entity</label>
+          <select name="entityType" value={filters.entityType} onChange={handleChange} className={inputClass}>
+            <option value="">All</option>
+            {ENTITY_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">From</label>
+          <input type="date" name="from" value={filters.from} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">To</label>
+          <input type="date" name="to" value={filters.to} onChange={handleChange} className={inputClass} />
+        </div>
+        <button
+          type="submit"
+          className="inline-flex items-center justify-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium"
+        >
+          <Filter className="w-4 h-4 mr-2" />
+          Filter
+        </button>
+        <div className="md:col-span-3">
+          <label className="block text-xs font-medium text-gray-500 mb-1">Entity ID</label>
+          <input name="entityId" value={filters.entityId} onChange={handleChange} className={`${inputClass} font-mono`} placeholder="Exact client, alert or user id" />
+        </div>
+      </form>
+
+      {error && (
+        <div className="m-6 bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex">
+            <AlertCircle className="w-5 h-5 text-red-400" />
+            <div className="ml-3">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3"></th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entity</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changed</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {entries.map((entry) => {
+              const fields = changedFields(entry);
+              const isExpanded = expanded === entry.id;
+
+              return (
+                <React.Fragment key={entry.id}>
+                  <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => setExpanded(isExpanded ? null : entry.id)}>
+                    <td className="pl-6 py-4 text-gray-400">
+                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{entry.createdAt.toLocaleString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{entry.actorEmail ?? 'System'}</div>
+                      <div className="text-xs text-gray-500 capitalize">{entry.actorRole?.replace('_', ' ')}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="px-2 py-1 text-xs font-medium rounded bg-gray-100 text-gray-800 font-mono">{entry.action}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <span className="capitalize">{entry.entityType}</span>
+                      <span className="ml-2 text-xs text-gray-500 font-mono">{entry.entityId.slice(0, 8)}</span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{fields.slice(0, 4).join(', ')}{fields.length > 4 && ` +${fields.length - 4}`}</td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="bg-gray-50">
+                      <td></td>
+                      <td colSpan={5} className="px-6 py-4">
+                        <p className="text-xs text-gray-500 mb-2 font-mono">Entry #{entry.id} · {entry.entityId}</p>
+                        <table className="text-sm">
+                          <thead>
+                            <tr className="text-left text-xs text-gray-500 uppercase">
+                              <th className="pr-6 pb-1">Field</th>
+                              <th className="pr-6 pb-1">Before</th>
+                              <th className="pb-1">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {fields.map(field => (
+                              <tr key={field} className="align-top">
+                                <td className="pr-6 py-1 font-medium text-gray-700">{field}</td>
+                                <td className="pr-6 py-1 text-red-700 font-mono break-all">{formatValue(entry.before?.[field])}</td>
+                                <td className="py-1 text-green-700 font-mono break-all">{formatValue(entry.after?.[field])}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {!loading && entries.length === 0 && (
+          <div className="p-8 text-center text-gray-500">No audit entries match these filters</div>
+        )}
+      </div>
+
+      {(loading || hasMore) && (
+        <div className="px-6 py-4 border-t text-center">
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={loading}
+            className="text-sm font-medium text-red-600 hover:text-red-700 disabled:text-gray-400"
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
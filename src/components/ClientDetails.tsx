@@ -1,5 +1,6 @@
 import React from 'react';
 import { Client } from '../context/EmergencyContext';
+import { MEDICAL_FLAG_LABELS, MedicalFlag } from '../lib/priority';
 import { User, Phone, Mail, Home, Contact, MapPin, Clock } from 'lucide-react';
 
 interface ClientDetailsProps {
@@ -67,6 +68,15 @@ export default function ClientDetails({ client }: ClientDetailsProps) {
                 <label className="text-sm font-medium text-gray-500">Emergency Contact</label>
                 <p className="mt-1 text-gray-900">{client.emergencyContact}</p>
               </div>
+
+              <div>
+                <label className="text-sm font-medium text-gray-500">Medical Flags</label>
+                <p className="mt-1 text-gray-900">
+                  {client.medicalFlags.length > 0
+                    ? client.medicalFlags.map(flag => MEDICAL_FLAG_LABELS[flag as MedicalFlag] ?? flag).join(', ')
+                    : 'None recorded'}
+                </p>
+              </div>
               
               <div>
                 <label className="text-sm font-medium text-gray-500">Account Status</label>
@@ -1,24 +1,53 @@
 import React from 'react';
-import { useEmergency } from '../context/EmergencyContext';
-import { User, Phone, MapPin, Circle, Plus, MoreVertical, Trash2 } from 'lucide-react';
+import { useEmergency, Client } from '../context/EmergencyContext';
+import { User, Phone, MapPin, Circle, Plus, MoreVertical, Trash2, Send, HeartPulse, Download } from 'lucide-react';
 import AddClientModal from './AddClientModal';
+import InviteLinkModal from './InviteLinkModal';
+import MedicalFlagsModal from './MedicalFlagsModal';
+import ExportModal from './ExportModal';
+import { clientExportColumns } from '../lib/export';
+import { MEDICAL_FLAG_LABELS, MedicalFlag } from '../lib/priority';
 import { supabase } from '../lib/supabase';
+import { ClientInvite, createInviteUrl } from '../lib/invites';
+import { useAuth } from '../hooks/useAuth';
 
 export default function ClientList() {
-  const { clients, alerts, refreshData } = useEmergency();
+  const { clients, alerts, organizations, organizationId, refreshData } = useEmergency();
+  const { can } = useAuth();
   const [showAddModal, setShowAddModal] = React.useState(false);
   const [showDropdown, setShowDropdown] = React.useState<string | null>(null);
+  const [invite, setInvite] = React.useState<ClientInvite | null>(null);
+  const [medicalClient, setMedicalClient] = React.useState<Client | null>(null);
+  const [showExport, setShowExport] = React.useState(false);
+  const hasActions = can('client.create') || can('client.update') || can('client.delete');
 
   const getClientAlerts = (clientId: string) => {
     return alerts.filter(alert => alert.clientId === clientId && alert.status === 'active');
   };
 
   const deleteClient = async (clientId: string) => {
+    if (!can('client.delete')) return;
+
     if (confirm('Are you sure you want to delete this client?')) {
-      await supabase.from('clients').delete().eq('id', clientId);
+      const { error } = await supabase.from('clients').delete().eq('id', clientId);
+      if (error) {
+        console.error('Error deleting client:', error);
+        alert('Failed to delete client');
+        return;
+      }
       refreshData();
     }
   };
+  const sendInvite = async (client: Client) => {
+    try {
+      const url = await createInviteUrl(client.id);
+      setInvite({ clientName: client.name, email: client.email, url });
+    } catch (err) {
+      console.error('Error creating invite:', err);
+      alert(err instanceof Error ? err.message : 'Failed to create invite');
+    }
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-sm border">
       <div className="px-6 py-4 border-b bg-gray-50">
@@ -27,13 +56,28 @@ export default function ClientList() {
             <h3 className="text-lg font-medium text-gray-900">Client Management</h3>
             <p className="text-sm text-gray-500">Monitor all registered clients and their status</p>
           </div>
-          <button
-            onClick={() => setShowAddModal(true)}
-            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Client
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowExport(true)}
+              disabled={clients.length === 0}
+              className="inline-flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </button>
+            {can('client.create') && !organizationId && (
+              <p className="text-sm text-gray-500">Select an organization to add clients</p>
+            )}
+            {can('client.create') && organizationId && (
+              <button
+                onClick={() => setShowAddModal(true)}
+                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Client
+              </button>
+            )}
+          </div>
         </div>
       </div>
       
@@ -74,6 +118,15 @@ export default function ClientList() {
                       <div className="ml-4">
                         <div className="text-sm font-medium text-gray-900">{client.name}</div>
                         <div className="text-sm text-gray-500">{client.address}</div>
+                        {client.medicalFlags.length > 0 && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {client.medicalFlags.map(flag => (
+                              <span key={flag} className="px-1.5 py-0.5 text-xs rounded bg-red-50 text-red-700">
+                                {MEDICAL_FLAG_LABELS[flag as MedicalFlag] ?? flag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </td>
@@ -124,22 +177,50 @@ export default function ClientList() {
                   <td className="px-6 py-4 whitespace-nowrap relative">
                     <button
                       onClick={() => setShowDropdown(showDropdown === client.id ? null : client.id)}
-                      className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100"
+                      disabled={!hasActions}
+                      className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                      title={hasActions ? 'Client actions' : 'No actions available for your role'}
                     >
                       <MoreVertical className="w-4 h-4" />
                     </button>
-                    {showDropdown === client.id && (
+                    {showDropdown === client.id && hasActions && (
                       <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg z-10 border">
-                        <button
-                          onClick={() => {
-                            deleteClient(client.id);
-                            setShowDropdown(null);
-                          }}
-                          className="flex items-center w-full px-4 py-2 text-sm text-red-600 hover:bg-red-50"
-                        >
-                          <Trash2 className="w-4 h-4 mr-2" />
-                          Delete Client
-                        </button>
+                        {can('client.create') && (
+                          <button
+                            onClick={() => {
+                              sendInvite(client);
+                              setShowDropdown(null);
+                            }}
+                            className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                          >
+                            <Send className="w-4 h-4 mr-2" />
+                            New Invite Link
+                          </button>
+                        )}
+                        {can('client.update') && (
+                          <button
+                            onClick={() => {
+                              setMedicalClient(client);
+                              setShowDropdown(null);
+                            }}
+                            className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                          >
+                            <HeartPulse className="w-4 h-4 mr-2" />
+                            Medical Flags
+                          </button>
+                        )}
+                        {can('client.delete') && (
+                          <button
+                            onClick={() => {
+                              deleteClient(client.id);
+                              setShowDropdown(null);
+                            }}
+                            className="flex items-center w-full px-4 py-2 text-sm text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete Client
+                          </button>
+                        )}
                       </div>
                     )}
                   </td>
@@ -175,8 +256,27 @@ export default function ClientList() {
       <AddClientModal
         isOpen={showAddModal}
         onClose={() => setShowAddModal(false)}
-        onClientAdded={refreshData}
+        onClientAdded={(newInvite) => {
+          setInvite(newInvite);
+          refreshData();
+        }}
       />
+
+      <InviteLinkModal invite={invite} onClose={() => setInvite(null)} />
+      {medicalClient && (
+        <MedicalFlagsModal client={medicalClient} onClose={() => setMedicalClient(null)} />
+      )}
+      {showExport && (
+        <ExportModal
+          title="Export Clients"
+          filename="clients"
+          columns={clientExportColumns()}
+          rows={clients}
+          positionOf={client => client.location}
+          scope={`${clients.length} clients in ${organizations.find(o => o.id === organizationId)?.name ?? 'all organizations'}.`}
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
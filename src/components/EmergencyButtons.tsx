@@ -1,50 +1,96 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useEmergency } from '../context/EmergencyContext';
-import { AlertTriangle, Car, HelpCircle, Phone } from 'lucide-react';
+import PinPrompt from './PinPrompt';
+import AlertMediaCapture from './AlertMediaCapture';
+import { CLIENT_CANCEL_WINDOW_MS, canClientCancel, isOpenStatus } from '../lib/alertLifecycle';
+import { alertTypeColor, alertTypeIcon } from '../lib/alertTypes';
+import { AlertCircle, AlertTriangle, Phone, ShieldCheck } from 'lucide-react';
 
 export default function EmergencyButtons() {
-  const { createAlert, currentClient } = useEmergency();
+  const { createAlert, cancelAlert, alerts, alertTypes, getAlertType, currentClient, pinsConfigured } = useEmergency();
   const [showConfirm, setShowConfirm] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [sendError, setSendError] = useState('');
+  const [cancelling, setCancelling] = useState(false);
+  const [cancelNotice, setCancelNotice] = useState('');
+  const [offerCapture, setOfferCapture] = useState(false);
+  const [now, setNow] = useState(Date.now());
 
-  const emergencyTypes = [
-    {
-      id: 'panic',
-      label: 'PANIC ALERT',
-      description: 'Immediate emergency assistance needed',
-      icon: AlertTriangle,
-      color: 'bg-red-600 hover:bg-red-700 focus:ring-red-500',
-      textColor: 'text-white'
-    },
-    {
-      id: 'accident',
-      label: 'ACCIDENT',
-      description: 'Medical or vehicle accident',
-      icon: Car,
-      color: 'bg-orange-600 hover:bg-orange-700 focus:ring-orange-500',
-      textColor: 'text-white'
-    },
-    {
-      id: 'assistance',
-      label: 'ASSISTANCE',
-      description: 'Non-emergency help needed',
-      icon: HelpCircle,
-      color: 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500',
-      textColor: 'text-white'
-    }
-  ];
+  // Latest alert the client can still call off
+  const cancellable = alerts
+    .filter(alert => canClientCancel(alert, now))
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
+
+  const cancellableId = cancellable?.id;
+
+  // A repeat press may have been folded into an earlier alert, so attach media
+  // to whichever open alert was pressed most recently
+  const captureTarget = alerts
+    .filter(alert => isOpenStatus(alert.status))
+    .sort((a, b) => b.lastPressedAt.getTime() - a.lastPressedAt.getTime())[0];
+
+  useEffect(() => {
+    if (!cancellableId) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [cancellableId]);
 
-  const handleEmergencyClick = (type: 'panic' | 'accident' | 'assistance') => {
+  // The organisation's active alert types, one button each
+  const emergencyTypes = alertTypes.filter(t => t.organizationId === currentClient?.organizationId && t.active);
+
+  const typeLabel = (type: string) =>
+    (currentClient && getAlertType(currentClient.organizationId, type)?.label) ?? type;
+
+  const handleEmergencyClick = (type: string) => {
+    setSendError('');
     setShowConfirm(type);
   };
 
-  const confirmAlert = (type: 'panic' | 'accident' | 'assistance') => {
-    createAlert(type);
+  const closeConfirm = () => {
     setShowConfirm(null);
-    
-    // Show success notification
-    alert(`${type.toUpperCase()} alert sent to security control center!\nYour location has been shared and help is on the way.`);
+    setSendError('');
   };
 
+  // The confirmation stays open until the alert is in, so a failure can be retried
+  const confirmAlert = async (type: string) => {
+    setSending(true);
+    setSendError('');
+
+    try {
+      await createAlert(type);
+      setShowConfirm(null);
+      setCancelNotice('');
+      setNow(Date.now());
+      setOfferCapture(true);
+    } catch (err) {
+      setSendError(err instanceof Error ? err.message : 'Failed to send alert');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleCancelPin = async (pin: string) => {
+    if (!cancellable) return true;
+
+    const result = await cancelAlert(cancellable.id, pin);
+    if (result === 'invalid') return false;
+
+    setCancelling(false);
+    setCancelNotice(
+      result === 'cancelled'
+        ? 'Your alert has been cancelled. The control center has been told you are safe.'
+        : result === 'expired'
+          ? 'This alert can no longer be cancelled here. Please call the control center.'
+          : 'Set up your security PINs in your profile to cancel alerts.'
+    );
+    return true;
+  };
+
+  const secondsLeft = cancellable
+    ? Math.max(0, Math.ceil((cancellable.timestamp.getTime() + CLIENT_CANCEL_WINDOW_MS - now) / 1000))
+    : 0;
+
   if (!currentClient) return null;
 
   return (
@@ -54,18 +100,52 @@ export default function EmergencyButtons() {
         <p className="text-gray-600">Press any button below to alert security control center</p>
       </div>
 
+      {cancellable && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <p className="font-medium text-green-900">
+              {typeLabel(cancellable.type).toUpperCase()} alert sent. Pressed it by mistake?
+            </p>
+            <p className="text-sm text-green-700">
+              {pinsConfigured
+                ? `You can cancel it with your PIN for another ${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}.`
+                : 'Set up your security PINs in your profile to be able to cancel alerts.'}
+            </p>
+          </div>
+          {pinsConfigured && (
+            <button
+              onClick={() => setCancelling(true)}
+              className="inline-flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+            >
+              <ShieldCheck className="w-5 h-5 mr-2" />
+              I'm safe - cancel alert
+            </button>
+          )}
+        </div>
+      )}
+
+      {offerCapture && captureTarget && (
+        <AlertMediaCapture key={captureTarget.id} alertId={captureTarget.id} onClose={() => setOfferCapture(false)} />
+      )}
+
+      {cancelNotice && !cancellable && (
+        <div className="bg-gray-100 border border-gray-200 rounded-lg p-4 text-sm text-gray-700">
+          {cancelNotice}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         {emergencyTypes.map((emergency) => {
-          const Icon = emergency.icon;
+          const Icon = alertTypeIcon(emergency);
           return (
             <button
               key={emergency.id}
-              onClick={() => handleEmergencyClick(emergency.id as 'panic' | 'accident' | 'assistance')}
-              className={`${emergency.color} ${emergency.textColor} p-8 rounded-xl shadow-lg transform transition-all duration-200 hover:scale-105 focus:outline-none focus:ring-4 focus:ring-offset-2 active:scale-95`}
+              onClick={() => handleEmergencyClick(emergency.key)}
+              className={`${alertTypeColor(emergency).button} text-white p-8 rounded-xl shadow-lg transform transition-all duration-200 hover:scale-105 focus:outline-none focus:ring-4 focus:ring-offset-2 active:scale-95`}
             >
               <div className="text-center">
                 <Icon className="w-12 h-12 mx-auto mb-4" />
-                <h3 className="text-xl font-bold mb-2">{emergency.label}</h3>
+                <h3 className="text-xl font-bold mb-2 uppercase">{emergency.label}</h3>
                 <p className="text-sm opacity-90">{emergency.description}</p>
               </div>
             </button>
@@ -82,23 +162,38 @@ export default function EmergencyButtons() {
                 <AlertTriangle className="w-8 h-8 text-red-600" />
               </div>
               <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                Confirm {showConfirm.toUpperCase()} Alert
+                Confirm {typeLabel(showConfirm).toUpperCase()} Alert
               </h3>
               <p className="text-gray-600 mb-6">
                 This will immediately notify the security control center and share your current location.
               </p>
+              {sendError && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6 text-left">
+                  <div className="flex">
+                    <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+                    <div className="ml-3">
+                      <p className="text-sm font-semibold text-red-800">
+                        Alert NOT sent — call <a href="tel:911" className="underline">911</a> now.
+                      </p>
+                      <p className="text-sm text-red-700">{sendError}</p>
+                    </div>
+                  </div>
+                </div>
+              )}
               <div className="flex space-x-3">
                 <button
-                  onClick={() => setShowConfirm(null)}
-                  className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                  onClick={closeConfirm}
+                  disabled={sending}
+                  className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
                 >
                   Cancel
                 </button>
                 <button
-                  onClick={() => confirmAlert(showConfirm as 'panic' | 'accident' | 'assistance')}
-                  className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                  onClick={() => confirmAlert(showConfirm)}
+                  disabled={sending}
+                  className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
                 >
-                  Send Alert
+                  {sending ? 'Sending...' : sendError ? 'Try Again' : 'Send Alert'}
                 </button>
               </div>
             </div>
@@ -106,6 +201,21 @@ export default function EmergencyButtons() {
         </div>
       )}
 
+      {/* Cancel with PIN */}
+      {cancelling && cancellable && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 px-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-sm w-full p-6">
+            <PinPrompt
+              title="Cancel your alert"
+              description="Enter your PIN to tell the control center you are safe."
+              submitLabel="I'm safe"
+              onSubmit={handleCancelPin}
+              onCancel={() => setCancelling(false)}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Emergency Contact */}
       <div className="bg-gray-100 rounded-lg p-4 text-center">
         <div className="flex items-center justify-center space-x-2 text-gray-600">
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { Alert, useEmergency } from '../context/EmergencyContext';
+import { ESCALATION_ACTION_LABELS, nextEscalation } from '../lib/escalation';
+import { Timer, Siren } from 'lucide-react';
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export default function EscalationCountdown({ alert }: { alert: Alert }) {
+  const { escalationRules } = useEmergency();
+  const [now, setNow] = useState(Date.now());
+  const next = nextEscalation(alert, escalationRules);
+  const dueAt = next?.dueAt.getTime();
+
+  useEffect(() => {
+    if (dueAt === undefined) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [dueAt]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {alert.escalationLevel > 0 && (
+        <span className="inline-flex items-center px-2 py-0.5 rounded bg-red-600 text-white text-xs font-semibold uppercase">
+          <Siren className="w-3 h-3 mr-1" />
+          Escalated L{alert.escalationLevel}
+        </span>
+      )}
+      {next && (
+        <span className={`inline-flex items-center ${next.dueAt.getTime() - now < 10000 ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+          <Timer className="w-4 h-4 mr-1" />
+          {next.dueAt.getTime() > now
+            ? `${ESCALATION_ACTION_LABELS[next.rule.action]} in ${formatRemaining(next.dueAt.getTime() - now)}`
+            : `${ESCALATION_ACTION_LABELS[next.rule.action]} now`}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { useEmergency } from '../context/EmergencyContext';
+import {
+  EscalationAction,
+  EscalationRule,
+  ESCALATION_ACTION_LABELS,
+  deleteEscalationRule,
+  saveEscalationRule,
+} from '../lib/escalation';
+import { AlertCircle, Plus, Save, Trash2, Timer } from 'lucide-react';
+
+type Draft = { delaySeconds: string; action: EscalationAction };
+
+export default function EscalationSettings() {
+  const { escalationRules, alertTypes, organizationId, organizations, refreshData } = useEmergency();
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  if (!organizationId) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-8 text-center text-gray-500">
+        Select an organization to configure escalation rules
+      </div>
+    );
+  }
+
+  const organization = organizations.find(o => o.id === organizationId);
+  const rules = escalationRules.filter(r => r.organizationId === organizationId);
+  const types = alertTypes.filter(t => t.organizationId === organizationId && t.active);
+
+  const draftFor = (rule: EscalationRule): Draft =>
+    drafts[rule.id] ?? { delaySeconds: String(rule.delaySeconds), action: rule.action };
+
+  const updateDraft = (ruleId: string, draft: Draft) => {
+    setDrafts(prev => ({ ...prev, [ruleId]: draft }));
+  };
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setSaving(key);
+    setError('');
+
+    try {
+      await action();
+      await refreshData();
+    } catch (err) {
+      console.error('Error saving escalation rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save escalation rule');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleSave = (rule: EscalationRule) => {
+    const draft = draftFor(rule);
+    const delaySeconds = parseInt(draft.delaySeconds, 10);
+
+    if (!delaySeconds || delaySeconds <= 0) {
+      setError('Delay must be a positive number of seconds');
+      return;
+    }
+
+    run(rule.id, async () => {
+      await saveEscalationRule({ ...rule, delaySeconds, action: draft.action });
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[rule.id];
+        return next;
+      });
+    });
+  };
+
+  const handleAdd = (alertType: string, typeRules: EscalationRule[]) => {
+    const last = typeRules[typeRules.length - 1];
+
+    run(`add-${alertType}`, () => saveEscalationRule({
+      organizationId,
+      alertType,
+      level: (last?.level ?? 0) + 1,
+      delaySeconds: (last?.delaySeconds ?? 0) + 60,
+      action: last ? 'page_supervisor' : 'notify_operators',
+    }));
+  };
+
+  const handleDelete = (rule: EscalationRule) => {
+    if (!confirm(`Remove level ${rule.level} escalation for ${rule.alertType} alerts?`)) return;
+    run(rule.id, () => deleteEscalationRule(rule.id));
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-medium text-gray-900">Escalation Rules</h2>
+        <p className="text-sm text-gray-500">
+          Alerts still active after each delay are escalated{organization ? ` for ${organization.name}` : ''}.
+          Delays are measured from when the alert was raised; acknowledging the alert stops further escalation.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex">
+            <AlertCircle className="w-5 h-5 text-red-400" />
+            <div className="ml-3">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {types.map(({ key: value, label }) => {
+        const typeRules = rules.filter(r => r.alertType === value).sort((a, b) => a.level - b.level);
+
+        return (
+          <div key={value} className="bg-white rounded-lg shadow-sm border">
+            <div className="px-6 py-4 border-b bg-gray-50 flex items-center justify-between">
+              <h3 className="text-md font-medium text-gray-900 flex items-center">
+                <Timer className="w-4 h-4 mr-2" />
+                {label} alerts
+              </h3>
+              <button
+                onClick={() => handleAdd(value, typeRules)}
+                disabled={saving === `add-${value}`}
+                className="inline-flex items-center px-3 py-1 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add level
+              </button>
+            </div>
+
+            {typeRules.length === 0 ? (
+              <div className="p-6 text-sm text-gray-500">No escalation - alerts wait until an operator picks them up.</div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {typeRules.map((rule) => {
+                  const draft = draftFor(rule);
+                  const dirty = draft.delaySeconds !== String(rule.delaySeconds) || draft.action !== rule.action;
+
+                  return (
+                    <div key={rule.id} className="px-6 py-4 flex flex-wrap items-center gap-4">
+                      <span className="w-20 text-sm font-medium text-gray-900">Level {rule.level}</span>
+                      <label className="flex items-center space-x-2 text-sm text-gray-600">
+                        <span>After</span>
+                        <input
+                          type="number"
+                          min={1}
+                          value={draft.delaySeconds}
+                          onChange={(e) => updateDraft(rule.id, { ...draft, delaySeconds: e.target.value })}
+                          className={`${inputClass} w-24`}
+                        />
+                        <span>seconds</span>
+                      </label>
+                      <select
+                        value={draft.action}
+                        onChange={(e) => updateDraft(rule.id, { ...draft, action: e.target.value as EscalationAction })}
+                        className={inputClass}
+                      >
+                        {(Object.keys(ESCALATION_ACTION_LABELS) as EscalationAction[]).map(action => (
+                          <option key={action} value={action}>{ESCALATION_ACTION_LABELS[action]}</option>
+                        ))}
+                      </select>
+                      <div className="ml-auto flex items-center space-x-2">
+                        <button
+                          onClick={() => handleSave(rule)}
+                          disabled={!dirty || saving === rule.id}
+                          className="inline-flex items-center px-3 py-1 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700 disabled:opacity-50"
+                        >
+                          <Save className="w-4 h-4 mr-1" />
+                          Save
+                        </button>
+                        <button
+                          onClick={() => handleDelete(rule)}
+                          disabled={saving === rule.id}
+                          className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                          title="Remove level"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
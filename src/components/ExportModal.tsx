@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import {
+  EXPORT_FORMATS,
+  ExportColumn,
+  ExportFormat,
+  ExportTimeZone,
+  buildExport,
+  downloadExport,
+} from '../lib/export';
+import { X, Download, AlertCircle } from 'lucide-react';
+
+interface ExportModalProps<T> {
+  title: string;
+  // File name without date or extension
+  filename: string;
+  columns: ExportColumn<T>[];
+  // Rows on screen, or a loader for views that only hold one page
+  rows: T[] | (() => Promise<T[]>);
+  // Enables GeoJSON
+  positionOf?: (row: T) => { lat: number; lng: number } | undefined;
+  // Describes which filters the export follows
+  scope: string;
+  onClose: () => void;
+}
+
+export default function ExportModal<T>({ title, filename, columns, rows, positionOf, scope, onClose }: ExportModalProps<T>) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [timeZone, setTimeZone] = useState<ExportTimeZone>('local');
+  const [selected, setSelected] = useState<string[]>(() => columns.map(column => column.key));
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const formats = (Object.keys(EXPORT_FORMATS) as ExportFormat[]).filter(f => f !== 'geojson' || positionOf);
+
+  const toggleColumn = (key: string) => {
+    setSelected(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (selected.length === 0) {
+      setError('Choose at least one column');
+      return;
+    }
+
+    setExporting(true);
+    setError('');
+
+    try {
+      const data = Array.isArray(rows) ? rows : await rows();
+      const chosen = columns.filter(column => selected.includes(column.key));
+      downloadExport(filename, format, buildExport(format, data, chosen, timeZone, positionOf));
+      onClose();
+    } catch (err) {
+      console.error('Error exporting:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export');
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 px-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Download className="w-5 h-5 mr-2 text-gray-600" />
+            {title}
+          </h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-sm text-gray-600">{scope}</p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+              <div className="flex">
+                <AlertCircle className="w-5 h-5 text-red-400" />
+                <div className="ml-3">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">Format</span>
+            <div className="space-y-1">
+              {formats.map(f => (
+                <label key={f} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="format"
+                    checked={format === f}
+                    onChange={() => setFormat(f)}
+                    className="border-gray-300 text-red-600 focus:ring-red-500"
+                  />
+                  <span>{EXPORT_FORMATS[f].label}</span>
+                </label>
+              ))}
+            </div>
+            {format === 'geojson' && (
+              <p className="mt-1 text-xs text-gray-500">Rows without a location are left out.</p>
+            )}
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">Times</span>
+            <div className="flex space-x-4">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="time_zone"
+                  checked={timeZone === 'local'}
+                  onChange={() => setTimeZone('local')}
+                  className="border-gray-300 text-red-600 focus:ring-red-500"
+                />
+                <span>Local ({Intl.DateTimeFormat().resolvedOptions().timeZone})</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="time_zone"
+                  checked={timeZone === 'utc'}
+                  onChange={() => setTimeZone('utc')}
+                  className="border-gray-300 text-red-600 focus:ring-red-500"
+                />
+                <span>UTC</span>
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700">Columns</span>
+              <button
+                type="button"
+                onClick={() => setSelected(selected.length === columns.length ? [] : columns.map(column => column.key))}
+                className="text-xs text-red-600 hover:text-red-700"
+              >
+                {selected.length === columns.length ? 'Select none' : 'Select all'}
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-1">
+              {columns.map(column => (
+                <label key={column.key} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+                  />
+                  <span>{column.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={exporting}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              {exporting ? 'Exporting...' : 'Export'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Alert, useEmergency } from '../context/EmergencyContext';
+import {
+  HISTORY_EXPORT_LIMIT,
+  HISTORY_PAGE_SIZE,
+  HistoryFilters,
+  fetchAllMatchingAlerts,
+  filtersFromParams,
+  filtersToParams,
+  searchAlerts,
+} from '../lib/alertHistory';
+import { AlertStatus, STATUS_LABELS, STATUS_STYLES } from '../lib/alertLifecycle';
+import { RESOLUTION_LABELS } from '../lib/resolution';
+import { alertExportColumns } from '../lib/export';
+import IncidentReport from './IncidentReport';
+import ExportModal from './ExportModal';
+import { AlertCircle, ChevronLeft, ChevronRight, Download, Search, ShieldAlert } from 'lucide-react';
+
+export default function IncidentHistory() {
+  const { organizationId, clients, staff, alertTypes, getAlertType, getStaffName } = useEmergency();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [draft, setDraft] = useState<HistoryFilters>(() => filtersFromParams(searchParams));
+  const [results, setResults] = useState<Alert[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [reportAlert, setReportAlert] = useState<Alert | null>(null);
+  const [showExport, setShowExport] = useState(false);
+
+  // The URL is the source of truth, so history searches can be bookmarked and shared
+  const filters = filtersFromParams(searchParams);
+  const paramsKey = searchParams.toString();
+
+  useEffect(() => {
+    const applied = filtersFromParams(new URLSearchParams(paramsKey));
+    let cancelled = false;
+    setDraft(applied);
+    setLoading(true);
+    setError('');
+
+    searchAlerts(organizationId, applied)
+      .then(({ alerts, total }) => {
+        if (cancelled) return;
+        setResults(alerts);
+        setTotal(total);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error searching alert history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load incident history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paramsKey, organizationId]);
+
+  const applyFilters = (next: HistoryFilters) => {
+    setSearchParams({ view: 'history', ...filtersToParams(next) });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setDraft(prev => ({ ...prev, [name]: value || undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    applyFilters({ ...draft, page: 1 });
+  };
+
+  const handleClear = () => {
+    setDraft({ page: 1 });
+    applyFilters({ page: 1 });
+  };
+
+  const goToPage = (page: number) => applyFilters({ ...filters, page });
+
+  // Super admins see every tenant's types; the filter is by key
+  const typeOptions = alertTypes
+    .filter(t => !organizationId || t.organizationId === organizationId)
+    .filter((alertType, index, list) => list.findIndex(t => t.key === alertType.key) === index);
+
+  const pageCount = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+  const firstShown = total === 0 ? 0 : (filters.page - 1) * HISTORY_PAGE_SIZE + 1;
+  const lastShown = Math.min(total, filters.page * HISTORY_PAGE_SIZE);
+
+  const handler = (alert: Alert) => getStaffName(alert.assignedTo ?? alert.resolvedBy ?? alert.dispatchedBy ?? alert.acknowledgedBy);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="px-6 py-4 border-b bg-gray-50 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Incident History</h3>
+          <p className="text-sm text-gray-500">Every alert, newest first. Search covers alert messages, resolution summaries and notes.</p>
+        </div>
+        <button
+          onClick={() => setShowExport(true)}
+          disabled={loading || total === 0}
+          className="inline-flex items-center px-4 py-2 bg-white border text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium disabled:opacity-50"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="px-6 py-4 border-b grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-500 mb-1">Search</label>
+          <input name="query" value={draft.query ?? ''} onChange={handleChange} className={inputClass} placeholder="Words from the message or notes" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">From</label>
+          <input type="date" name="from" value={draft.from ?? ''} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">To</label>
+          <input type="date" name="to" value={draft.to ?? ''} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Type</label>
+          <select name="type" value={draft.type ?? ''} onChange={handleChange} className={inputClass}>
+            <option value="">All</option>
+            {typeOptions.map(alertType => (
+              <option key={alertType.key} value={alertType.key}>{alertType.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Status</label>
+          <select name="status" value={draft.status ?? ''} onChange={handleChange} className={inputClass}>
+            <option value="">All</option>
+            {(Object.keys(STATUS_LABELS) as AlertStatus[]).map(status => (
+              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-500 mb-1">Client</label>
+          <select name="clientId" value={draft.clientId ?? ''} onChange={handleChange} className={inputClass}>
+            <option value="">All</option>
+            {clients.map(client => (
+              <option key={client.id} value={client.id}>{client.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-500 mb-1">Operator</label>
+          <select name="operatorId" value={draft.operatorId ?? ''} onChange={handleChange} className={inputClass}>
+            <option value="">All</option>
+            {staff.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={handleClear}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium"
+        >
+          Clear
+        </button>
+        <button
+          type="submit"
+          className="inline-flex items-center justify-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium"
+        >
+          <Search className="w-4 h-4 mr-2" />
+          Search
+        </button>
+      </form>
+
+      {error && (
+        <div className="m-6 bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex">
+            <AlertCircle className="w-5 h-5 text-red-400" />
+            <div className="ml-3">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Raised</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Handled by</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Resolution</th>
+            </tr>
+          </thead>
+          <tbody className={`bg-white divide-y divide-gray-200 ${loading ? 'opacity-50' : ''}`}>
+            {results.map(alert => (
+              <tr key={alert.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => setReportAlert(alert)}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{alert.timestamp.toLocaleString()}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  <span className="inline-flex items-center">
+                    {alert.duress && <ShieldAlert className="w-4 h-4 mr-1 text-red-700" />}
+                    {getAlertType(alert.organizationId, alert.type)?.label ?? alert.type}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {clients.find(c => c.id === alert.clientId)?.name ?? 'Unknown Client'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`px-2 py-1 text-xs font-medium rounded ${STATUS_STYLES[alert.status]}`}>{STATUS_LABELS[alert.status]}</span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{handler(alert) ?? '—'}</td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {alert.resolutionCode ? RESOLUTION_LABELS[alert.resolutionCode] : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {!loading && results.length === 0 && (
+          <div className="p-8 text-center text-gray-500">No incidents match these filters</div>
+        )}
+      </div>
+
+      <div className="px-6 py-4 border-t flex items-center justify-between text-sm text-gray-600">
+        <span>{total === 0 ? 'No results' : `Showing ${firstShown}–${lastShown} of ${total}`}</span>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => goToPage(filters.page - 1)}
+            disabled={loading || filters.page <= 1}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>Page {filters.page} of {pageCount}</span>
+          <button
+            onClick={() => goToPage(filters.page + 1)}
+            disabled={loading || filters.page >= pageCount}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {reportAlert && <IncidentReport alert={reportAlert} onClose={() => setReportAlert(null)} />}
+      {showExport && (
+        <ExportModal
+          title="Export Incidents"
+          filename="incidents"
+          columns={alertExportColumns({
+            clientName: alert => clients.find(c => c.id === alert.clientId)?.name,
+            staffName: getStaffName,
+            typeLabel: alert => getAlertType(alert.organizationId, alert.type)?.label ?? alert.type
+          })}
+          rows={() => fetchAllMatchingAlerts(organizationId, filters)}
+          positionOf={alert => alert.location}
+          scope={
+            total > HISTORY_EXPORT_LIMIT
+              ? `The newest ${HISTORY_EXPORT_LIMIT.toLocaleString()} of ${total.toLocaleString()} incidents matching the current filters. Narrow the dates to export the rest.`
+              : `All ${total.toLocaleString()} incidents matching the current filters, across every page.`
+          }
+          onClose={() => setShowExport(false)}
+        />
+      )}
+    </div>
+  );
+}
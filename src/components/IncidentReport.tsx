@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Alert, useEmergency } from '../context/EmergencyContext';
+import { AlertEvent, describeAlertEvent, fetchAlertEvents } from '../lib/alertEvents';
+import { AlertNote, fetchAlertNotes } from '../lib/alertNotes';
+import { AlertMessage, fetchAlertMessages } from '../lib/alertMessages';
+import { STATUS_LABELS } from '../lib/alertLifecycle';
+import { RESOLUTION_LABELS } from '../lib/resolution';
+import { MEDICAL_FLAG_LABELS, MedicalFlag } from '../lib/priority';
+import { AlertCircle, Printer, X } from 'lucide-react';
+
+interface IncidentReportProps {
+  // Passed in rather than looked up, as alerts from the history are not loaded in the context
+  alert: Alert;
+  onClose: () => void;
+}
+
+// Rendered outside #root so the print stylesheet can hide the app and print only the report
+export default function IncidentReport({ alert, onClose }: IncidentReportProps) {
+  const { clients, organizations, getStaffName, getAlertType } = useEmergency();
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [notes, setNotes] = useState<AlertNote[]>([]);
+  const [messages, setMessages] = useState<AlertMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const alertId = alert.id;
+  const client = clients.find(c => c.id === alert.clientId);
+  const organization = organizations.find(o => o.id === alert.organizationId);
+  const alertType = getAlertType(alert.organizationId, alert.type);
+
+  useEffect(() => {
+    Promise.all([fetchAlertEvents(alertId), fetchAlertNotes(alertId), fetchAlertMessages(alertId)])
+      .then(([alertEvents, alertNotes, alertMessages]) => {
+        setEvents(alertEvents);
+        setNotes(alertNotes);
+        setMessages(alertMessages);
+      })
+      .catch(err => {
+        console.error('Error loading incident report:', err);
+        setError('Failed to load the alert history and notes');
+      })
+      .finally(() => setLoading(false));
+  }, [alertId]);
+
+  const actorName = (userId: string | undefined) =>
+    userId && userId === alert.clientId ? client?.name ?? 'Client' : getStaffName(userId);
+
+  const stages = [
+    { label: 'Raised', at: alert.timestamp, by: undefined },
+    { label: 'Acknowledged', at: alert.acknowledgedAt, by: alert.acknowledgedBy },
+    { label: 'Dispatched', at: alert.dispatchedAt, by: alert.dispatchedBy },
+    { label: 'En Route', at: alert.enRouteAt, by: undefined },
+    { label: 'On Scene', at: alert.onSceneAt, by: undefined },
+    { label: 'Closed', at: alert.resolvedAt, by: alert.resolvedBy },
+  ];
+
+  const { lat, lng } = alert.location;
+  const mapUrl = `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}#map=17/${lat}/${lng}`;
+
+  return createPortal(
+    <div className="incident-report fixed inset-0 z-50 bg-white overflow-y-auto">
+      <div className="print:hidden sticky top-0 bg-gray-50 border-b px-6 py-3 flex items-center justify-end space-x-3">
+        <button
+          onClick={() => window.print()}
+          disabled={loading}
+          className="inline-flex items-center px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          <Printer className="w-4 h-4 mr-2" />
+          Print / Save as PDF
+        </button>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors" aria-label="Close report">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <article className="max-w-3xl mx-auto p-8 space-y-8 text-sm text-gray-800">
+        <header className="border-b pb-4">
+          <p className="text-xs uppercase tracking-wide text-gray-500">{organization?.name ?? 'SecureAlert'}</p>
+          <h1 className="text-2xl font-bold text-gray-900">Incident Report</h1>
+          <p className="text-gray-500">
+            Alert {alert.id} · generated {new Date().toLocaleString()}
+          </p>
+        </header>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 print:hidden">
+            <div className="flex">
+              <AlertCircle className="w-5 h-5 text-red-400" />
+              <div className="ml-3">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <section>
+          <h2 className="text-base font-semibold text-gray-900 mb-2">Incident</h2>
+          <dl className="grid grid-cols-2 gap-x-6 gap-y-2">
+            <dt className="text-gray-500">Type</dt>
+            <dd className="capitalize">{alert.duress ? 'Duress panic' : alertType?.label ?? alert.type}{alert.pressCount > 1 ? ` (${alert.pressCount} presses)` : ''}</dd>
+            <dt className="text-gray-500">Status</dt>
+            <dd>{STATUS_LABELS[alert.status]}{alert.cancelledByClient ? ' (cancelled by client)' : ''}</dd>
+            <dt className="text-gray-500">Handled by</dt>
+            <dd>{alert.assignedTo ? getStaffName(alert.assignedTo) : 'Unassigned'}</dd>
+            {alert.message && (
+              <>
+                <dt className="text-gray-500">Client message</dt>
+                <dd>{alert.message}</dd>
+              </>
+            )}
+          </dl>
+        </section>
+
+        <section>
+          <h2 className="text-base font-semibold text-gray-900 mb-2">Client</h2>
+          {client ? (
+            <dl className="grid grid-cols-2 gap-x-6 gap-y-2">
+              <dt className="text-gray-500">Name</dt>
+              <dd>{client.name}</dd>
+              <dt className="text-gray-500">Phone</dt>
+              <dd>{client.phone}</dd>
+              <dt className="text-gray-500">Email</dt>
+              <dd>{client.email}</dd>
+              <dt className="text-gray-500">Address</dt>
+              <dd>{client.address}</dd>
+              <dt className="text-gray-500">Emergency contact</dt>
+              <dd>{client.emergencyContact || '—'}</dd>
+              <dt className="text-gray-500">Medical flags</dt>
+              <dd>
+                {client.medicalFlags.length > 0
+                  ? client.medicalFlags.map(flag => MEDICAL_FLAG_LABELS[flag as MedicalFlag] ?? flag).join(', ')
+                  : 'None'}
+              </dd>
+            </dl>
+          ) : (
+            <p className="text-gray-500">Unknown client</p>
+          )}
+        </section>
+
+        <section>
+          <h2 className="text-base font-semibold text-gray-900 mb-2">Location</h2>
+          <p>
+            Last reported at {lat.toFixed(5)}, {lng.toFixed(5)}
+            {alert.pressCount > 1 && ` (latest press, ${alert.lastPressedAt.toLocaleString()})`}
+          </p>
+          <a href={mapUrl} target="_blank" rel="noreferrer" className="text-blue-600 underline break-all">
+            {mapUrl}
+          </a>
+        </section>
+
+        <section>
+          <h2 className="text-base font-semibold text-gray-900 mb-2">Response times</h2>
+          <table className="w-full text-left">
+            <tbody className="divide-y divide-gray-200">
+              {stages.map(stage => (
+                <tr key={stage.label}>
+                  <td className="py-1 text-gray-500 w-40">{stage.label}</td>
+                  <td className="py-1">{stage.at ? stage.at.toLocaleString() : '—'}</td>
+                  <td className="py-1 text-gray-500">{stage.by ? actorName(stage.by) : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section>
+          <h2 className="text-base font-semibold text-gray-900 mb-2">Resolution</h2>
+          {alert.resolutionCode ? (
+            <>
+              <p className="font-medium">{RESOLUTION_LABELS[alert.resolutionCode]}</p>
+              <p className="mt-1 whitespace-pre-wrap">{alert.resolutionSummary}</p>
+            </>
+          ) : (
+            <p className="text-gray-500">
+              {alert.cancelledByClient ? 'Cancelled by the client with their PIN' : 'Not yet resolved'}
+            </p>
+          )}
+        </section>
+
+        <section>
+          <h2 className="text-base font-semibold text-gray-900 mb-2">Timeline</h2>
+          {loading ? (
+            <p className="text-gray-500">Loading...</p>
+          ) : (
+            <table className="w-full text-left">
+              <tbody className="divide-y divide-gray-200">
+                {events.map(event => {
+                  const { title, actor } = describeAlertEvent(event, { clientName: client?.name ?? 'Client', actorName });
+                  return (
+                    <tr key={event.id} className="align-top">
+                      <td className="py-1 pr-4 text-gray-500 whitespace-nowrap">{event.createdAt.toLocaleString()}</td>
+                      <td className="py-1">
+                        <p>{title} <span className="text-gray-500">- {actor}</span></p>
+                        {event.note && <p className="text-gray-600 italic">{event.note}</p>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <section>
+          <h2 className="text-base font-semibold text-gray-900 mb-2">Notes</h2>
+          {!loading && notes.length === 0 && <p className="text-gray-500">No notes</p>}
+          <ul className="space-y-2">
+            {notes.map(note => (
+              <li key={note.id}>
+                <p className="text-gray-500">
+                  {getStaffName(note.authorId)} · {note.createdAt.toLocaleString()}
+                </p>
+                <p className="whitespace-pre-wrap">{note.body}</p>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        {!alert.duress && (
+          <section>
+            <h2 className="text-base font-semibold text-gray-900 mb-2">Chat with client</h2>
+            {!loading && messages.length === 0 && <p className="text-gray-500">No messages</p>}
+            <ul className="space-y-2">
+              {messages.map(message => (
+                <li key={message.id}>
+                  <p className="text-gray-500">
+                    {message.senderRole === 'client' ? client?.name ?? 'Client' : getStaffName(message.senderId)} · {message.createdAt.toLocaleString()}
+                  </p>
+                  <p className="whitespace-pre-wrap">{message.body}</p>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </article>
+    </div>,
+    document.body
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { MapPin, ZoomIn, ZoomOut, RotateCcw, Navigation, Layers, Satellite, Map as MapIcon } from 'lucide-react';
+import { AlertStatus, STATUS_LABELS, isOpenStatus } from '../lib/alertLifecycle';
 
 interface MapLocation {
   id: string;
@@ -7,8 +8,10 @@ interface MapLocation {
   lng: number;
   name: string;
   type: 'client' | 'alert' | 'current';
-  status?: 'active' | 'acknowledged' | 'resolved';
-  alertType?: 'panic' | 'accident' | 'assistance';
+  status?: AlertStatus;
+  // Label and marker colour of the alert's type
+  alertType?: string;
+  markerColor?: string;
 }
 
 interface InteractiveMapProps {
@@ -88,14 +91,9 @@ export default function InteractiveMap({
   const getLocationColor = (location: MapLocation) => {
     if (location.type === 'current') return 'bg-blue-600';
     if (location.type === 'alert') {
-      if (location.status === 'resolved') return 'bg-gray-500';
-      if (location.status === 'acknowledged') return 'bg-yellow-500';
-      switch (location.alertType) {
-        case 'panic': return 'bg-red-600';
-        case 'accident': return 'bg-orange-600';
-        case 'assistance': return 'bg-blue-600';
-        default: return 'bg-red-600';
-      }
+      if (location.status && !isOpenStatus(location.status)) return 'bg-gray-500';
+      if (location.status && location.status !== 'active') return 'bg-yellow-500';
+      return location.markerColor ?? 'bg-red-600';
     }
     return 'bg-green-600';
   };
@@ -242,7 +240,7 @@ export default function InteractiveMap({
                     </p>
                     {location.type === 'alert' && (
                       <p className="text-xs text-red-300 capitalize">
-                        {location.alertType} - {location.status}
+                        {location.alertType} - {location.status && STATUS_LABELS[location.status]}
                       </p>
                     )}
                   </div>
@@ -373,7 +371,7 @@ export default function InteractiveMap({
                 {selectedLocation.alertType} Alert
               </p>
               <p className="text-xs text-gray-500 capitalize">
-                Status: {selectedLocation.status}
+                Status: {selectedLocation.status && STATUS_LABELS[selectedLocation.status]}
               </p>
             </div>
           )}
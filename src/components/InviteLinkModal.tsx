@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { X, Link as LinkIcon, Copy, Check, Clock } from 'lucide-react';
+import { ClientInvite } from '../lib/invites';
+
+interface InviteLinkModalProps {
+  invite: ClientInvite | null;
+  onClose: () => void;
+}
+
+export default function InviteLinkModal({ invite, onClose }: InviteLinkModalProps) {
+  const [copied, setCopied] = useState(false);
+
+  if (!invite) return null;
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(invite.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying invite link:', err);
+    }
+  };
+
+  const handleClose = () => {
+    setCopied(false);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 px-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h3 className="text-lg font-semibold text-gray-900">Client Invite Ready</h3>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Send this link to <span className="font-medium text-gray-900">{invite.clientName}</span> at{' '}
+            <span className="font-medium text-gray-900">{invite.email}</span>. They will choose their own
+            password when they open it.
+          </p>
+
+          <div className="flex items-center space-x-2">
+            <div className="flex-1 flex items-center px-3 py-2 bg-gray-50 border border-gray-300 rounded-md min-w-0">
+              <LinkIcon className="w-4 h-4 text-gray-400 mr-2 flex-shrink-0" />
+              <input
+                readOnly
+                value={invite.url}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 bg-transparent text-sm text-gray-700 focus:outline-none truncate"
+              />
+            </div>
+            <button
+              onClick={copyLink}
+              className="inline-flex items-center px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+
+          <div className="flex items-center space-x-2 text-xs text-gray-500">
+            <Clock className="w-4 h-4" />
+            <span>The link works once and expires in 72 hours.</span>
+          </div>
+
+          <button
+            onClick={handleClose}
+            className="w-full px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Lock, Eye, EyeOff, AlertCircle, AlertTriangle, Clock } from 'lucide-react';
+
+interface LockScreenProps {
+  email: string;
+  activeAlertCount: number;
+  shiftEndsAt: number | null;
+  attemptsRemaining: number;
+  onUnlock: (password: string) => Promise<boolean>;
+  onSignOut: () => void;
+}
+
+export default function LockScreen({
+  email,
+  activeAlertCount,
+  shiftEndsAt,
+  attemptsRemaining,
+  onUnlock,
+  onSignOut
+}: LockScreenProps) {
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    const unlocked = await onUnlock(password);
+
+    if (!unlocked) {
+      setError('Incorrect password');
+      setPassword('');
+    }
+
+    setLoading(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 flex items-center justify-center z-[100] px-4">
+      <div className="max-w-sm w-full">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-gray-800 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Lock className="w-8 h-8 text-gray-300" />
+          </div>
+          <h2 className="text-2xl font-bold text-white">Console Locked</h2>
+          <p className="mt-2 text-sm text-gray-400">{email}</p>
+        </div>
+
+        {activeAlertCount > 0 && (
+          <div className="mb-6 bg-red-600 rounded-lg px-4 py-3 flex items-center space-x-3 animate-pulse">
+            <AlertTriangle className="w-5 h-5 text-white flex-shrink-0" />
+            <p className="text-sm font-medium text-white">
+              {activeAlertCount} active {activeAlertCount === 1 ? 'alert' : 'alerts'} waiting. Unlock to respond.
+            </p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <div className="flex">
+                <AlertCircle className="w-5 h-5 text-red-400" />
+                <div className="ml-3">
+                  <p className="text-sm text-red-800">{error}</p>
+                  <p className="text-xs text-red-600 mt-1">
+                    {attemptsRemaining} {attemptsRemaining === 1 ? 'attempt' : 'attempts'} left before you are signed out
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="unlock-password" className="block text-sm font-medium text-gray-700">
+              Password
+            </label>
+            <div className="mt-1 relative">
+              <input
+                id="unlock-password"
+                type={showPassword ? 'text' : 'password'}
+                autoComplete="current-password"
+                autoFocus
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="appearance-none block w-full px-3 py-2 pr-10 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-red-500 focus:border-red-500"
+                placeholder="Enter your password to unlock"
+              />
+              <button
+                type="button"
+                className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                onClick={() => setShowPassword(!showPassword)}
+              >
+                {showPassword ? (
+                  <EyeOff className="w-5 h-5 text-gray-400" />
+                ) : (
+                  <Eye className="w-5 h-5 text-gray-400" />
+                )}
+              </button>
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Unlocking...' : 'Unlock'}
+          </button>
+
+          <button
+            type="button"
+            onClick={onSignOut}
+            className="w-full text-sm text-gray-600 hover:text-gray-900"
+          >
+            Not you? Sign out
+          </button>
+        </form>
+
+        {shiftEndsAt && (
+          <div className="mt-6 flex items-center justify-center space-x-2 text-xs text-gray-500">
+            <Clock className="w-4 h-4" />
+            <span>Session ends at {new Date(shiftEndsAt).toLocaleTimeString()}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
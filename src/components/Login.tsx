@@ -1,32 +1,22 @@
 import React, { useState } from 'react';
 import { useAuth } from '../hooks/useAuth';
-import { Shield, Eye, EyeOff, AlertCircle } from 'lucide-react';
+import { verifyTotpCode, redeemRecoveryCode } from '../lib/mfa';
+import { Shield, Eye, EyeOff, AlertCircle, KeyRound } from 'lucide-react';
 
 interface LoginProps {
   isAdmin?: boolean;
+  requireMfa?: boolean;
 }
 
-export default function Login({ isAdmin = false }: LoginProps) {
+export default function Login({ isAdmin = false, requireMfa = false }: LoginProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const { signIn } = useAuth();
-
-  // Auto-fill last used credentials on component mount
-  React.useEffect(() => {
-    const lastEmail = localStorage.getItem('lastLoginEmail');
-    const adminAutoLogin = localStorage.getItem('adminAutoLogin');
-    
-    if (isAdmin && adminAutoLogin && lastEmail?.includes('@admin.')) {
-      setEmail(lastEmail);
-      setPassword('admin123');
-    } else if (!isAdmin && lastEmail && !lastEmail.includes('@admin.')) {
-      setEmail(lastEmail);
-      setPassword('client123');
-    }
-  }, [isAdmin]);
+  const { user, signIn, signOut } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -42,14 +32,22 @@ export default function Login({ isAdmin = false }: LoginProps) {
     setLoading(false);
   };
 
-  // Auto-fill demo credentials
-  const fillDemoCredentials = (type: 'admin' | 'client') => {
-    if (type === 'admin') {
-      setEmail('admin@admin.com');
-      setPassword('admin123');
-    } else {
-      setEmail('john.smith@client.com');
-      setPassword('client123');
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      if (useRecoveryCode) {
+        await redeemRecoveryCode(code);
+      } else {
+        await verifyTotpCode(code);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+      setCode('');
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -65,120 +63,163 @@ export default function Login({ isAdmin = false }: LoginProps) {
           {isAdmin ? 'Admin Portal' : 'Client Portal'}
         </h2>
         <p className="mt-2 text-center text-sm text-gray-600">
-          {isAdmin ? 'Security Control Center Access' : 'Emergency Response System'}
+          {requireMfa
+            ? 'Two-factor verification'
+            : isAdmin ? 'Security Control Center Access' : 'Emergency Response System'}
         </p>
       </div>
 
       <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
         <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
-          <form className="space-y-6" onSubmit={handleSubmit}>
-            {error && (
-              <div className="bg-red-50 border border-red-200 rounded-md p-4">
-                <div className="flex">
-                  <AlertCircle className="w-5 h-5 text-red-400" />
-                  <div className="ml-3">
-                    <p className="text-sm text-red-800">{error}</p>
+          {requireMfa ? (
+            <form className="space-y-6" onSubmit={handleMfaSubmit}>
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                  <div className="flex">
+                    <AlertCircle className="w-5 h-5 text-red-400" />
+                    <div className="ml-3">
+                      <p className="text-sm text-red-800">{error}</p>
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email address
-              </label>
-              <div className="mt-1">
-                <input
-                  id="email"
-                  name="email"
-                  type="email"
-                  autoComplete="email"
-                  required
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="Enter your email"
-                />
+              <div className="flex items-start space-x-3">
+                <KeyRound className="w-5 h-5 text-gray-400 mt-0.5" />
+                <p className="text-sm text-gray-600">
+                  {useRecoveryCode
+                    ? 'Enter one of your recovery codes. Your authenticator will be removed and you will be asked to set up a new one.'
+                    : <>Enter the 6-digit code from your authenticator app for <span className="font-medium text-gray-900">{user?.email}</span>.</>}
+                </p>
               </div>
-            </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <div className="mt-1 relative">
-                <input
-                  id="password"
-                  name="password"
-                  type={showPassword ? 'text' : 'password'}
-                  autoComplete="current-password"
-                  required
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="appearance-none block w-full px-3 py-2 pr-10 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="Enter your password"
-                />
-                <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                  onClick={() => setShowPassword(!showPassword)}
-                >
-                  {showPassword ? (
-                    <EyeOff className="w-5 h-5 text-gray-400" />
-                  ) : (
-                    <Eye className="w-5 h-5 text-gray-400" />
-                  )}
-                </button>
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                  {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+                </label>
+                <div className="mt-1">
+                  <input
+                    id="code"
+                    name="code"
+                    type="text"
+                    inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                    autoComplete="one-time-code"
+                    autoFocus
+                    required
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 tracking-widest font-mono"
+                    placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                  />
+                </div>
               </div>
-            </div>
 
-            <div>
               <button
                 type="submit"
                 disabled={loading}
-                className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
-                  isAdmin 
-                    ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500' 
-                    : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'
-                } focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed`}
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {loading ? 'Signing in...' : 'Sign in'}
+                {loading ? 'Verifying...' : 'Verify'}
               </button>
-            </div>
-          </form>
-
-          {/* Demo Credentials */}
-          <div className="mt-6">
-            <div className="relative">
-              <div className="absolute inset-0 flex items-center">
-                <div className="w-full border-t border-gray-300" />
-              </div>
-              <div className="relative flex justify-center text-sm">
-                <span className="px-2 bg-white text-gray-500">Demo Credentials</span>
-              </div>
-            </div>
 
-            <div className="mt-6 grid grid-cols-1 gap-3">
-              {isAdmin && (
+              <div className="flex items-center justify-between text-sm">
                 <button
                   type="button"
-                  onClick={() => fillDemoCredentials('admin')}
-                  className="w-full inline-flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-500 hover:bg-gray-50"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode('');
+                    setError('');
+                  }}
+                  className="text-gray-600 hover:text-gray-900"
                 >
-                  Use Admin Demo
+                  {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
                 </button>
-              )}
-              {!isAdmin && (
                 <button
                   type="button"
-                  onClick={() => fillDemoCredentials('client')}
-                  className="w-full inline-flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-500 hover:bg-gray-50"
+                  onClick={() => signOut()}
+                  className="text-gray-600 hover:text-gray-900"
                 >
-                  Use Client Demo
+                  Sign out
                 </button>
+              </div>
+            </form>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                  <div className="flex">
+                    <AlertCircle className="w-5 h-5 text-red-400" />
+                    <div className="ml-3">
+                      <p className="text-sm text-red-800">{error}</p>
+                    </div>
+                  </div>
+                </div>
               )}
-            </div>
-          </div>
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                  Email address
+                </label>
+                <div className="mt-1">
+                  <input
+                    id="email"
+                    name="email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Enter your email"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <div className="mt-1 relative">
+                  <input
+                    id="password"
+                    name="password"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="current-password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="appearance-none block w-full px-3 py-2 pr-10 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Enter your password"
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="w-5 h-5 text-gray-400" />
+                    ) : (
+                      <Eye className="w-5 h-5 text-gray-400" />
+                    )}
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
+                    isAdmin 
+                      ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500' 
+                      : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'
+                  } focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  {loading ? 'Signing in...' : 'Sign in'}
+                </button>
+              </div>
+            </form>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,28 @@
+import { MEDICAL_FLAGS, MEDICAL_FLAG_LABELS } from '../lib/priority';
+
+interface MedicalFlagsFieldProps {
+  value: string[];
+  onChange: (flags: string[]) => void;
+}
+
+export default function MedicalFlagsField({ value, onChange }: MedicalFlagsFieldProps) {
+  const toggle = (flag: string) => {
+    onChange(value.includes(flag) ? value.filter(f => f !== flag) : [...value, flag]);
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {MEDICAL_FLAGS.map(flag => (
+        <label key={flag} className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.includes(flag)}
+            onChange={() => toggle(flag)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>{MEDICAL_FLAG_LABELS[flag]}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { Client, useEmergency } from '../context/EmergencyContext';
+import MedicalFlagsField from './MedicalFlagsField';
+import { X, HeartPulse, AlertCircle } from 'lucide-react';
+
+interface MedicalFlagsModalProps {
+  client: Client;
+  onClose: () => void;
+}
+
+export default function MedicalFlagsModal({ client, onClose }: MedicalFlagsModalProps) {
+  const { refreshData } = useEmergency();
+  const [flags, setFlags] = useState<string[]>(client.medicalFlags);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+
+    const { error: updateError } = await supabase
+      .from('clients')
+      .update({ medical_flags: flags, updated_at: new Date().toISOString() })
+      .eq('id', client.id);
+
+    setSaving(false);
+
+    if (updateError) {
+      console.error('Error updating medical flags:', updateError);
+      setError(updateError.message);
+      return;
+    }
+
+    await refreshData();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 px-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <HeartPulse className="w-5 h-5 mr-2 text-red-600" />
+            Medical Flags - {client.name}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Flags are shown to operators on the client's alerts and raise their priority.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+              <div className="flex">
+                <AlertCircle className="w-5 h-5 text-red-400" />
+                <div className="ml-3">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <MedicalFlagsField value={flags} onChange={setFlags} />
+
+          <div className="flex space-x-3 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
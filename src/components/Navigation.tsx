@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Shield, User, Settings, LogOut } from 'lucide-react';
+import { Shield, User, Settings, LogOut, KeyRound } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 
 interface NavigationProps {
@@ -56,6 +56,20 @@ export default function Navigation({ isAdmin }: NavigationProps) {
                 Admin Portal
               </Link>
             )}
+
+            {isAdmin && (
+              <Link
+                to="/settings/security"
+                className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  location.pathname === '/settings/security'
+                    ? 'bg-red-100 text-red-700'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                }`}
+              >
+                <KeyRound className="w-4 h-4 mr-2" />
+                Security
+              </Link>
+            )}
             
             <button
               onClick={handleSignOut}
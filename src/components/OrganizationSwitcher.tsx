@@ -0,0 +1,31 @@
+import { useEmergency } from '../context/EmergencyContext';
+import { useAuth } from '../hooks/useAuth';
+import { Building2 } from 'lucide-react';
+
+export default function OrganizationSwitcher() {
+  const { organizations, organizationId, setOrganizationId } = useEmergency();
+  const { can } = useAuth();
+
+  if (!can('organization.manage')) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Building2 className="w-5 h-5 text-gray-400" />
+      <select
+        value={organizationId ?? ''}
+        onChange={(e) => setOrganizationId(e.target.value || null)}
+        className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+        title="Switch organization"
+      >
+        <option value="">All organizations</option>
+        {organizations.map((organization) => (
+          <option key={organization.id} value={organization.id}>
+            {organization.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
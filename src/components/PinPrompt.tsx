@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { KeyRound, AlertCircle } from 'lucide-react';
+
+interface PinPromptProps {
+  title: string;
+  description: string;
+  submitLabel: string;
+  onSubmit: (pin: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+export default function PinPrompt({ title, description, submitLabel, onSubmit, onCancel }: PinPromptProps) {
+  const [pin, setPin] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const accepted = await onSubmit(pin);
+      if (!accepted) {
+        setError('Incorrect PIN');
+      }
+    } catch (err) {
+      console.error('Error submitting PIN:', err);
+      setError('Could not check your PIN. Please try again.');
+    } finally {
+      setPin('');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="text-center">
+      <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+        <KeyRound className="w-8 h-8 text-blue-600" />
+      </div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">{title}</h3>
+      <p className="text-gray-600 mb-6">{description}</p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4 text-left">
+          <div className="flex">
+            <AlertCircle className="w-5 h-5 text-red-400" />
+            <div className="ml-3">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <input
+        type="password"
+        inputMode="numeric"
+        pattern="[0-9]*"
+        autoComplete="off"
+        autoFocus
+        required
+        maxLength={8}
+        value={pin}
+        onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+        className="w-full px-3 py-3 border border-gray-300 rounded-md text-center text-2xl tracking-[0.5em] font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 mb-6"
+        placeholder="••••"
+      />
+
+      <div className="flex space-x-3">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={loading || pin.length < 4}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Checking...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { useEmergency } from '../context/EmergencyContext';
+import { KeyRound, ShieldAlert, AlertCircle, CheckCircle } from 'lucide-react';
+
+const PIN_PATTERN = /^[0-9]{4,8}$/;
+
+export default function PinSettings() {
+  const { pinsConfigured, setPins } = useEmergency();
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState({ currentPin: '', pin: '', confirmPin: '', duressPin: '', confirmDuressPin: '' });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value.replace(/\D/g, '') }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaved(false);
+
+    if (pinsConfigured && !form.currentPin) {
+      setError('Enter your current PIN to change your PINs');
+      return;
+    }
+    if (!PIN_PATTERN.test(form.pin) || !PIN_PATTERN.test(form.duressPin)) {
+      setError('PINs must be 4 to 8 digits');
+      return;
+    }
+    if (form.pin !== form.confirmPin || form.duressPin !== form.confirmDuressPin) {
+      setError('PIN confirmation does not match');
+      return;
+    }
+    if (form.pin === form.duressPin) {
+      setError('Your duress PIN must be different from your PIN');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await setPins(form.pin, form.duressPin, pinsConfigured ? form.currentPin : undefined);
+      setForm({ currentPin: '', pin: '', confirmPin: '', duressPin: '', confirmDuressPin: '' });
+      setEditing(false);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save PINs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border mt-8">
+      <div className="px-6 py-4 border-b bg-gray-50">
+        <h3 className="text-lg font-medium text-gray-900">Security PINs</h3>
+        <p className="text-sm text-gray-500">Used when you sign in and when you call off an alert</p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="flex items-start space-x-3">
+            <KeyRound className="w-5 h-5 text-blue-500 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-gray-600">
+              <span className="font-medium text-gray-900">Your PIN</span> confirms it is really you.
+            </p>
+          </div>
+          <div className="flex items-start space-x-3">
+            <ShieldAlert className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-gray-600">
+              <span className="font-medium text-gray-900">Your duress PIN</span> works just like your PIN on
+              screen, but silently tells the control center you are being forced. Use it if someone makes you
+              sign in or cancel an alert.
+            </p>
+          </div>
+        </div>
+
+        {saved && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-3 flex items-center space-x-2 text-sm text-green-800">
+            <CheckCircle className="w-4 h-4" />
+            <span>Your PINs have been saved.</span>
+          </div>
+        )}
+
+        {!editing ? (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-700">
+              {pinsConfigured ? 'Your PINs are set.' : 'You have not set your PINs yet.'}
+            </p>
+            <button
+              onClick={() => {
+                setEditing(true);
+                setSaved(false);
+              }}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+            >
+              {pinsConfigured ? 'Change PINs' : 'Set PINs'}
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <div className="flex">
+                  <AlertCircle className="w-5 h-5 text-red-400" />
+                  <div className="ml-3">
+                    <p className="text-sm text-red-800">{error}</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {pinsConfigured && (
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Current PIN</label>
+                  <input type="password" inputMode="numeric" name="currentPin" maxLength={8} required value={form.currentPin} onChange={handleChange} className={inputClass} />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{pinsConfigured ? 'New PIN' : 'PIN'}</label>
+                <input type="password" inputMode="numeric" name="pin" maxLength={8} required value={form.pin} onChange={handleChange} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Confirm PIN</label>
+                <input type="password" inputMode="numeric" name="confirmPin" maxLength={8} required value={form.confirmPin} onChange={handleChange} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{pinsConfigured ? 'New duress PIN' : 'Duress PIN'}</label>
+                <input type="password" inputMode="numeric" name="duressPin" maxLength={8} required value={form.duressPin} onChange={handleChange} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Confirm duress PIN</label>
+                <input type="password" inputMode="numeric" name="confirmDuressPin" maxLength={8} required value={form.confirmDuressPin} onChange={handleChange} className={inputClass} />
+              </div>
+            </div>
+
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => {
+                  setEditing(false);
+                  setError('');
+                }}
+                className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Saving...' : 'Save PINs'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
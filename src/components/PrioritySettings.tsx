@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { useEmergency } from '../context/EmergencyContext';
+import {
+  DEFAULT_PRIORITY_WEIGHTS,
+  PRIORITY_WEIGHT_LABELS,
+  PriorityWeights,
+  savePriorityWeights,
+} from '../lib/priority';
+import { AlertCircle, CheckCircle, Gauge, RotateCcw, Save } from 'lucide-react';
+
+const WEIGHT_GROUPS: { title: string; keys: (keyof PriorityWeights)[] }[] = [
+  { title: 'Time waiting', keys: ['waitingPerMinute', 'maxWaitingMinutes'] },
+  { title: 'Client and history', keys: ['medicalFlag', 'repeatAlert', 'duress', 'failedCancel'] },
+  { title: 'Repeat presses', keys: ['coalesceWindowSeconds'] },
+];
+
+export default function PrioritySettings() {
+  const { organizationId, organizations, getPriorityWeights, refreshData } = useEmergency();
+  const [weights, setWeights] = useState<PriorityWeights>(DEFAULT_PRIORITY_WEIGHTS);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+
+  const current = organizationId ? getPriorityWeights(organizationId) : DEFAULT_PRIORITY_WEIGHTS;
+
+  useEffect(() => {
+    setWeights(current);
+    setSaved(false);
+  }, [current]);
+
+  if (!organizationId) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-8 text-center text-gray-500">
+        Select an organization to configure alert priority
+      </div>
+    );
+  }
+
+  const organization = organizations.find(o => o.id === organizationId);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setWeights(prev => ({ ...prev, [name]: Math.max(0, parseInt(value, 10) || 0) }));
+    setSaved(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (weights.maxWaitingMinutes <= 0) {
+      setError('The waiting cap must be at least one minute');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      await savePriorityWeights(organizationId, weights);
+      await refreshData();
+      setSaved(true);
+    } catch (err) {
+      console.error('Error saving priority settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save priority settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border">
+      <div className="px-6 py-4 border-b bg-gray-50">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Gauge className="w-5 h-5 mr-2" />
+          Alert Priority{organization ? ` - ${organization.name}` : ''}
+        </h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Each open alert scores its type's default priority plus these points. The queue is worked highest score first.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <div className="flex">
+              <AlertCircle className="w-5 h-5 text-red-400" />
+              <div className="ml-3">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {WEIGHT_GROUPS.map(group => (
+          <div key={group.title}>
+            <h4 className="text-sm font-medium text-gray-900 mb-3">{group.title}</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {group.keys.map(key => (
+                <label key={key} className="block">
+                  <span className="block text-sm text-gray-600 mb-1">{PRIORITY_WEIGHT_LABELS[key]}</span>
+                  <input
+                    type="number"
+                    min={key === 'maxWaitingMinutes' ? 1 : 0}
+                    name={key}
+                    value={weights[key]}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="px-6 py-4 border-t flex items-center justify-end space-x-3">
+        {saved && (
+          <span className="text-sm text-green-700 flex items-center">
+            <CheckCircle className="w-4 h-4 mr-1" />
+            Saved
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={() => setWeights(DEFAULT_PRIORITY_WEIGHTS)}
+          className="inline-flex items-center px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Defaults
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AuthenticatorAssuranceLevels, Session, User } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { UserRole, isStaffRole } from '../lib/roles';
+import { Permission, can as roleCan } from '../lib/permissions';
+import { clearConsoleSession } from '../lib/sessionPolicy';
+import { AuthContext, AuthContextType } from '../hooks/useAuth';
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [assuranceLevel, setAssuranceLevel] = useState<AuthenticatorAssuranceLevels | null>(null);
+  const [nextAssuranceLevel, setNextAssuranceLevel] = useState<AuthenticatorAssuranceLevels | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+
+    const loadRole = async (userId: string) => {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('role, organization_id')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading user role:', error);
+        return { role: null, organizationId: null };
+      }
+
+      return {
+        role: (data?.role as UserRole | undefined) ?? null,
+        organizationId: (data?.organization_id as string | null | undefined) ?? null
+      };
+    };
+
+    const loadAssurance = async () => {
+      const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+      if (error) {
+        console.error('Error loading assurance level:', error);
+        return { currentLevel: null, nextLevel: null };
+      }
+
+      return data;
+    };
+
+    // Resolve the role and assurance level before exposing the user so consumers
+    // never see a signed-in user without knowing which portal they belong to
+    const applySession = async (session: Session | null) => {
+      const nextUser = session?.user ?? null;
+      const membership = nextUser
+        ? await loadRole(nextUser.id)
+        : { role: null, organizationId: null };
+      const assurance = nextUser
+        ? await loadAssurance()
+        : { currentLevel: null, nextLevel: null };
+
+      if (!active) return;
+      setUser(nextUser);
+      setRole(membership.role);
+      setOrganizationId(membership.organizationId);
+      setAssuranceLevel(assurance.currentLevel);
+      setNextAssuranceLevel(assurance.nextLevel);
+      setLoading(false);
+    };
+
+    // Get initial session
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      applySession(session);
+    });
+
+    // Listen for auth changes. Supabase calls made inside this callback can
+    // deadlock the auth client, so the role lookup is deferred.
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      (_event, session) => {
+        setTimeout(() => applySession(session), 0);
+      }
+    );
+
+    return () => {
+      active = false;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const signIn = async (email: string, password: string) => {
+    return supabase.auth.signInWithPassword({
+      email,
+      password,
+    });
+  };
+
+  const signUp = async (email: string, password: string) => {
+    return supabase.auth.signUp({
+      email,
+      password,
+    });
+  };
+
+  // Stable so effects that sign out, like the console lock, do not re-run every render
+  const signOut = useCallback(async () => {
+    clearConsoleSession();
+    const { error } = await supabase.auth.signOut();
+    return { error };
+  }, []);
+
+  const isAdmin = () => {
+    return isStaffRole(role);
+  };
+
+  const can = (permission: Permission) => {
+    return roleCan(role, permission);
+  };
+
+  const value: AuthContextType = {
+    user,
+    role,
+    organizationId,
+    assuranceLevel,
+    nextAssuranceLevel,
+    loading,
+    signIn,
+    signUp,
+    signOut,
+    isAdmin,
+    can
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,28 @@
+import React from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { ConsoleLockContext, useConsoleLock } from '../hooks/useConsoleLock';
+import { useEmergency } from './EmergencyContext';
+import LockScreen from '../components/LockScreen';
+
+// Puts the lock screen over whichever staff page is open while the console is locked
+export function ConsoleLockProvider({ children }: { children: React.ReactNode }) {
+  const { user, signOut } = useAuth();
+  const { alerts } = useEmergency();
+  const { locked, lock, unlock, shiftEndsAt, attemptsRemaining } = useConsoleLock();
+
+  return (
+    <ConsoleLockContext.Provider value={lock}>
+      {children}
+      {locked && (
+        <LockScreen
+          email={user?.email ?? ''}
+          activeAlertCount={alerts.filter(alert => alert.status === 'active').length}
+          shiftEndsAt={shiftEndsAt}
+          attemptsRemaining={attemptsRemaining}
+          onUnlock={unlock}
+          onSignOut={signOut}
+        />
+      )}
+    </ConsoleLockContext.Provider>
+  );
+}
@@ -1,14 +1,30 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { UserRole } from '../lib/roles';
+import { EscalationNotice, EscalationRule, ESCALATION_AUDIENCE, fetchEscalationRules } from '../lib/escalation';
+import { DEFAULT_PRIORITY_WEIGHTS, PriorityWeights, fetchPriorityWeights } from '../lib/priority';
+import { AlertType, PANIC_ALERT_TYPE, fetchAlertTypes } from '../lib/alertTypes';
+import { AlertStatus, CLOSED_STATUSES, OPEN_STATUSES, RECENTLY_CLOSED_MS, STATUS_LABELS, STATUS_PERMISSIONS, canTransition } from '../lib/alertLifecycle';
+import { ResolutionCode } from '../lib/resolution';
+import { clientFacingAlert, formatAlert } from '../lib/alerts';
+
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+}
 
 export interface Client {
   id: string;
+  organizationId: string;
   name: string;
   phone: string;
   email: string;
   address: string;
   emergencyContact: string;
+  medicalFlags: string[];
   status: 'active' | 'inactive';
   location?: {
     lat: number;
@@ -20,25 +36,82 @@ export interface Client {
 
 export interface Alert {
   id: string;
+  organizationId: string;
   clientId: string;
-  type: 'panic' | 'accident' | 'assistance';
-  status: 'active' | 'acknowledged' | 'resolved';
+  // Key of one of the organisation's alert types
+  type: string;
+  status: AlertStatus;
   message?: string;
+  duress: boolean;
+  // When the client entered the duress PIN to "cancel" the alert
+  duressAt?: Date;
+  escalationLevel: number;
+  // Operator who owns the alert; set by claiming, reassigning or acknowledging
+  assignedTo?: string;
+  assignedAt?: Date;
+  cancelledByClient: boolean;
+  // Raised by failed client cancellation attempts
+  priorityBoost: number;
+  // Repeat presses from the client are folded into one alert
+  pressCount: number;
+  lastPressedAt: Date;
   location: {
     lat: number;
     lng: number;
   };
   timestamp: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string;
+  dispatchedAt?: Date;
+  dispatchedBy?: string;
+  enRouteAt?: Date;
+  onSceneAt?: Date;
+  // Set when the alert is closed as resolved, false alarm or cancelled
+  resolvedAt?: Date;
+  resolvedBy?: string;
+  resolutionCode?: ResolutionCode;
+  resolutionSummary?: string;
+  // Set when a closed alert is reopened; escalation restarts from here
+  reopenedAt?: Date;
 }
 
+export interface StaffMember {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+export type PinContext = 'login' | 'cancel';
+
+export type ClientCancelResult = 'cancelled' | 'invalid' | 'expired' | 'unset';
+
 interface EmergencyContextType {
+  organizations: Organization[];
+  organizationId: string | null;
+  setOrganizationId: (organizationId: string | null) => void;
   clients: Client[];
   alerts: Alert[];
   currentClient: Client | null;
+  pinsConfigured: boolean;
   loading: boolean;
-  createAlert: (type: 'panic' | 'accident' | 'assistance', message?: string) => Promise<void>;
-  acknowledgeAlert: (alertId: string) => Promise<void>;
-  resolveAlert: (alertId: string) => Promise<void>;
+  createAlert: (type: string, message?: string, options?: { duress?: boolean }) => Promise<void>;
+  setPins: (pin: string, duressPin: string, currentPin?: string) => Promise<void>;
+  verifyPin: (pin: string, context: PinContext) => Promise<boolean>;
+  cancelAlert: (alertId: string, pin: string) => Promise<ClientCancelResult>;
+  staff: StaffMember[];
+  escalationRules: EscalationRule[];
+  alertTypes: AlertType[];
+  getAlertType: (organizationId: string, key: string) => AlertType | undefined;
+  getPriorityWeights: (organizationId: string) => PriorityWeights;
+  escalations: EscalationNotice[];
+  // Alerts nobody has acknowledged yet, including ones raised before the console opened
+  incomingAlerts: Alert[];
+  dismissEscalation: (noticeId: string) => void;
+  getStaffName: (userId: string | undefined) => string | undefined;
+  transitionAlert: (alertId: string, status: AlertStatus, note?: string) => Promise<void>;
+  closeAlert: (alertId: string, status: AlertStatus, resolutionCode: ResolutionCode, summary: string) => Promise<void>;
+  claimAlert: (alertId: string) => Promise<void>;
+  assignAlert: (alertId: string, userId: string | null) => Promise<void>;
   updateLocation: (location: { lat: number; lng: number }) => Promise<void>;
   refreshData: () => Promise<void>;
 }
@@ -46,30 +119,50 @@ interface EmergencyContextType {
 const EmergencyContext = createContext<EmergencyContextType | undefined>(undefined);
 
 export function EmergencyProvider({ children }: { children: React.ReactNode }) {
-  const { user, isAdmin } = useAuth();
+  const { user, role, isAdmin, can, organizationId: userOrganizationId } = useAuth();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [selectedOrganizationId, setSelectedOrganizationId] = useState<string | null>(null);
   const [clients, setClients] = useState<Client[]>([]);
   const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [escalationRules, setEscalationRules] = useState<EscalationRule[]>([]);
+  const [alertTypes, setAlertTypes] = useState<AlertType[]>([]);
+  const [escalations, setEscalations] = useState<EscalationNotice[]>([]);
+  const [priorityWeights, setPriorityWeights] = useState<Record<string, PriorityWeights>>({});
   const [currentClient, setCurrentClient] = useState<Client | null>(null);
+  const [pinsConfigured, setPinsConfigured] = useState(false);
   const [loading, setLoading] = useState(true);
 
+  // Super admins pick a tenant (null means every tenant); everyone else is
+  // pinned to their own organisation
+  const organizationId = can('organization.manage') ? selectedOrganizationId : userOrganizationId;
+
   // Load initial data
   useEffect(() => {
     if (user) {
       loadData();
-      setupRealtimeSubscriptions();
+      return setupRealtimeSubscriptions();
     }
-  }, [user]);
+  }, [user, organizationId]);
 
   const loadData = async () => {
     try {
       setLoading(true);
       
       if (isAdmin()) {
-        // Admin loads all clients and alerts
-        await Promise.all([loadClients(), loadAlerts()]);
+        // Staff load the clients and alerts of the selected organisation
+        await Promise.all([
+          loadOrganizations(),
+          loadStaff(),
+          loadEscalationRules(),
+          loadAlertTypes(),
+          loadPriorityWeights(),
+          loadClients(),
+          loadAlerts()
+        ]);
       } else {
         // Client loads their own data
-        await Promise.all([loadCurrentClient(), loadClientAlerts()]);
+        await Promise.all([loadCurrentClient(), loadAlertTypes(), loadClientAlerts()]);
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -78,12 +171,91 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const loadClients = async () => {
+  const loadOrganizations = async () => {
     const { data, error } = await supabase
+      .from('organizations')
+      .select('id, name, slug')
+      .order('name');
+
+    if (error) {
+      console.error('Error loading organizations:', error);
+      return;
+    }
+
+    setOrganizations(data);
+  };
+
+  const loadStaff = async () => {
+    const { data, error } = await supabase.rpc('list_staff');
+
+    if (error) {
+      console.error('Error loading staff:', error);
+      return;
+    }
+
+    setStaff((data as { user_id: string; name: string; role: UserRole }[]).map(member => ({
+      id: member.user_id,
+      name: member.name,
+      role: member.role
+    })));
+  };
+
+  const loadEscalationRules = async () => {
+    try {
+      setEscalationRules(await fetchEscalationRules(organizationId));
+    } catch (error) {
+      console.error('Error loading escalation rules:', error);
+    }
+  };
+
+  // Clients only see their own organisation's types
+  const loadAlertTypes = async () => {
+    try {
+      setAlertTypes(await fetchAlertTypes(organizationId));
+    } catch (error) {
+      console.error('Error loading alert types:', error);
+    }
+  };
+
+  const getAlertType = (orgId: string, key: string) =>
+    alertTypes.find(alertType => alertType.organizationId === orgId && alertType.key === key);
+
+  const loadPriorityWeights = async () => {
+    try {
+      setPriorityWeights(await fetchPriorityWeights(organizationId));
+    } catch (error) {
+      console.error('Error loading priority settings:', error);
+    }
+  };
+
+  const getPriorityWeights = (orgId: string) => priorityWeights[orgId] ?? DEFAULT_PRIORITY_WEIGHTS;
+
+  const dismissEscalation = (noticeId: string) => {
+    setEscalations(prev => prev.filter(notice => notice.id !== noticeId));
+  };
+
+  // Every alert still waiting for acknowledgement sounds, so reloading or
+  // opening the console late never silences one. Acknowledging (or closing)
+  // an alert takes it out of the alarm
+  const incomingAlerts = alerts.filter(alert => alert.status === 'active');
+
+  const getStaffName = (userId: string | undefined) => {
+    if (!userId) return undefined;
+    return staff.find(member => member.id === userId)?.name ?? 'Unknown user';
+  };
+
+  const loadClients = async () => {
+    let query = supabase
       .from('clients')
       .select('*')
       .order('created_at', { ascending: false });
 
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       console.error('Error loading clients:', error);
       return;
@@ -91,11 +263,13 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
 
     const formattedClients: Client[] = data.map(client => ({
       id: client.id,
+      organizationId: client.organization_id,
       name: client.name,
       phone: client.phone,
       email: client.email,
       address: client.address,
       emergencyContact: client.emergency_contact,
+      medicalFlags: client.medical_flags ?? [],
       status: client.status,
       location: client.location_lat && client.location_lng ? {
         lat: parseFloat(client.location_lat),
@@ -125,11 +299,13 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
     if (data) {
       const client: Client = {
         id: data.id,
+        organizationId: data.organization_id,
         name: data.name,
         phone: data.phone,
         email: data.email,
         address: data.address,
         emergencyContact: data.emergency_contact,
+        medicalFlags: data.medical_flags ?? [],
         status: data.status,
         location: data.location_lat && data.location_lng ? {
           lat: parseFloat(data.location_lat),
@@ -139,34 +315,40 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
         updatedAt: data.updated_at
       };
 
+      const { data: hasPins, error: pinsError } = await supabase.rpc('client_pins_configured');
+      if (pinsError) {
+        console.error('Error loading PIN status:', pinsError);
+      }
+
+      setPinsConfigured(!!hasPins);
       setCurrentClient(client);
       setClients([client]);
     }
   };
 
+  // Only what the dashboard shows: open alerts and those closed recently.
+  // Reloaded on every realtime event, so it must stay small.
   const loadAlerts = async () => {
-    const { data, error } = await supabase
+    const closedSince = new Date(Date.now() - RECENTLY_CLOSED_MS).toISOString();
+
+    let query = supabase
       .from('alerts')
       .select('*')
+      .or(`status.in.(${OPEN_STATUSES.join(',')}),resolved_at.gte.${closedSince}`)
       .order('created_at', { ascending: false });
 
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       console.error('Error loading alerts:', error);
       return;
     }
 
-    const formattedAlerts: Alert[] = data.map(alert => ({
-      id: alert.id,
-      clientId: alert.client_id,
-      type: alert.type,
-      status: alert.status,
-      message: alert.message,
-      location: {
-        lat: parseFloat(alert.location_lat),
-        lng: parseFloat(alert.location_lng)
-      },
-      timestamp: new Date(alert.created_at)
-    }));
+    const formattedAlerts: Alert[] = data.map(formatAlert);
 
     setAlerts(formattedAlerts);
   };
@@ -178,6 +360,8 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
       .from('alerts')
       .select('*')
       .eq('client_id', user.id)
+      // A duress PIN at sign-in raises a silent alert the client must never see
+      .or('duress.eq.false,duress_at.not.is.null')
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -185,18 +369,8 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
       return;
     }
 
-    const formattedAlerts: Alert[] = data.map(alert => ({
-      id: alert.id,
-      clientId: alert.client_id,
-      type: alert.type,
-      status: alert.status,
-      message: alert.message,
-      location: {
-        lat: parseFloat(alert.location_lat),
-        lng: parseFloat(alert.location_lng)
-      },
-      timestamp: new Date(alert.created_at)
-    }));
+    // Duress cancellations stay live in the control room but must look cancelled here
+    const formattedAlerts: Alert[] = data.map(formatAlert).map(clientFacingAlert);
 
     setAlerts(formattedAlerts);
   };
@@ -231,10 +405,39 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
         .subscribe();
     }
 
+    // Escalations re-notify operators or page supervisors (staff only)
+    let escalationsSubscription: RealtimeChannel | undefined;
+    if (isAdmin()) {
+      escalationsSubscription = supabase
+        .channel('alert_escalations')
+        .on('postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'alert_events', filter: 'event_type=eq.escalated' },
+          (payload) => {
+            const event = payload.new as { id: string; alert_id: string; details: { level: number; action: EscalationNotice['action'] }; created_at: string };
+            if (!role || !ESCALATION_AUDIENCE[event.details.action].includes(role)) return;
+
+            setEscalations(prev => [
+              ...prev.filter(notice => notice.alertId !== event.alert_id),
+              {
+                id: event.id,
+                alertId: event.alert_id,
+                level: event.details.level,
+                action: event.details.action,
+                createdAt: new Date(event.created_at)
+              }
+            ]);
+          }
+        )
+        .subscribe();
+    }
+
     return () => {
-      alertsSubscription.unsubscribe();
+      supabase.removeChannel(alertsSubscription);
       if (clientsSubscription) {
-        clientsSubscription.unsubscribe();
+        supabase.removeChannel(clientsSubscription);
+      }
+      if (escalationsSubscription) {
+        supabase.removeChannel(escalationsSubscription);
       }
     };
   };
@@ -267,7 +470,11 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
     });
   };
 
-  const createAlert = async (type: 'panic' | 'accident' | 'assistance', message?: string) => {
+  const createAlert = async (
+    type: string,
+    message?: string,
+    options: { duress?: boolean } = {}
+  ) => {
     if (!user || !currentClient) {
       throw new Error('User not authenticated');
     }
@@ -281,6 +488,7 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
           client_id: user.id,
           type,
           message,
+          duress: options.duress ?? false,
           location_lat: location.lat,
           location_lng: location.lng,
           status: 'active'
@@ -288,8 +496,8 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
 
       if (error) throw error;
 
-      // Update client location
-      await updateLocation(location);
+      // The alert is in; a failed location update must not report it as unsent
+      await updateLocation(location).catch(() => undefined);
       
       // Refresh alerts
       if (isAdmin()) {
@@ -303,34 +511,154 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const acknowledgeAlert = async (alertId: string) => {
-    const { error } = await supabase
-      .from('alerts')
-      .update({ 
-        status: 'acknowledged',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', alertId);
+  // Changing PINs that are already set needs the current PIN
+  const setPins = async (pin: string, duressPin: string, currentPin?: string) => {
+    const { error } = await supabase.rpc('set_client_pins', {
+      p_pin: pin,
+      p_duress_pin: duressPin,
+      p_current_pin: currentPin ?? null
+    });
+
+    if (error) {
+      console.error('Error setting PINs:', error);
+      throw error;
+    }
+
+    setPinsConfigured(true);
+  };
+
+  // A duress PIN is accepted like the real one so nothing changes on screen,
+  // but it silently raises a panic alert for the control room
+  const verifyPin = async (pin: string, context: PinContext) => {
+    const { data: result, error } = await supabase.rpc('check_client_pin', { p_pin: pin });
+
+    if (error) {
+      console.error('Error verifying PIN:', error);
+      throw error;
+    }
+
+    if (result === 'duress') {
+      const message = context === 'login'
+        ? 'Duress PIN entered at sign-in'
+        : 'Duress PIN entered when cancelling an alert';
+
+      createAlert(PANIC_ALERT_TYPE, message, { duress: true }).catch(() => {
+        // Already logged; the client must not see a failure here
+      });
+      return true;
+    }
+
+    return result === 'valid';
+  };
+
+  // The database decides the outcome; a duress PIN also answers 'cancelled' so
+  // the client's screen behaves exactly as for the real PIN
+  const cancelAlert = async (alertId: string, pin: string) => {
+    const { data: result, error } = await supabase.rpc('client_cancel_alert', {
+      p_alert_id: alertId,
+      p_pin: pin
+    });
+
+    if (error) {
+      console.error('Error cancelling alert:', error);
+      throw error;
+    }
+
+    await loadClientAlerts();
+    return result as ClientCancelResult;
+  };
+
+  const transitionAlert = async (alertId: string, status: AlertStatus, note?: string) => {
+    const alert = alerts.find(a => a.id === alertId);
+    if (!alert) {
+      throw new Error('Alert not found');
+    }
+
+    if (!canTransition(alert.status, status)) {
+      throw new Error(`Alert cannot move from ${STATUS_LABELS[alert.status]} to ${STATUS_LABELS[status]}`);
+    }
+
+    const permission = STATUS_PERMISSIONS[status];
+    if (permission && !can(permission)) {
+      throw new Error(`Your role is not allowed to mark alerts as ${STATUS_LABELS[status]}`);
+    }
+
+    // Closing goes through closeAlert so the wrap-up is recorded with it
+    if (CLOSED_STATUSES.includes(status)) {
+      throw new Error('A resolution code and summary are required to close an alert');
+    }
+
+    if (CLOSED_STATUSES.includes(alert.status) && !note?.trim()) {
+      throw new Error('A reason is required to reopen an alert');
+    }
+
+    const { error } = await supabase.rpc('transition_alert', {
+      p_alert_id: alertId,
+      p_status: status,
+      p_note: note || null
+    });
 
     if (error) {
-      console.error('Error acknowledging alert:', error);
+      console.error('Error updating alert status:', error);
       throw error;
     }
 
     await loadAlerts();
   };
 
-  const resolveAlert = async (alertId: string) => {
-    const { error } = await supabase
-      .from('alerts')
-      .update({ 
-        status: 'resolved',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', alertId);
+  const closeAlert = async (alertId: string, status: AlertStatus, resolutionCode: ResolutionCode, summary: string) => {
+    const alert = alerts.find(a => a.id === alertId);
+    if (!alert) {
+      throw new Error('Alert not found');
+    }
+
+    if (!CLOSED_STATUSES.includes(status) || !canTransition(alert.status, status)) {
+      throw new Error(`Alert cannot move from ${STATUS_LABELS[alert.status]} to ${STATUS_LABELS[status]}`);
+    }
+
+    if (!can('alert.resolve')) {
+      throw new Error(`Your role is not allowed to mark alerts as ${STATUS_LABELS[status]}`);
+    }
+
+    if (!summary.trim()) {
+      throw new Error('A summary is required to close an alert');
+    }
+
+    const { error } = await supabase.rpc('close_alert', {
+      p_alert_id: alertId,
+      p_status: status,
+      p_resolution_code: resolutionCode,
+      p_summary: summary.trim()
+    });
+
+    if (error) {
+      console.error('Error closing alert:', error);
+      throw error;
+    }
+
+    await loadAlerts();
+  };
+
+  const claimAlert = async (alertId: string) => {
+    const { error } = await supabase.rpc('claim_alert', { p_alert_id: alertId });
+
+    if (error) {
+      console.error('Error claiming alert:', error);
+      throw error;
+    }
+
+    await loadAlerts();
+  };
+
+  // A null user unassigns the alert
+  const assignAlert = async (alertId: string, userId: string | null) => {
+    const { error } = await supabase.rpc('assign_alert', {
+      p_alert_id: alertId,
+      p_user_id: userId
+    });
 
     if (error) {
-      console.error('Error resolving alert:', error);
+      console.error('Error assigning alert:', error);
       throw error;
     }
 
@@ -373,13 +701,31 @@ export function EmergencyProvider({ children }: { children: React.ReactNode }) {
   };
 
   const value: EmergencyContextType = {
+    organizations,
+    organizationId,
+    setOrganizationId: setSelectedOrganizationId,
     clients,
     alerts,
     currentClient,
+    pinsConfigured,
     loading,
     createAlert,
-    acknowledgeAlert,
-    resolveAlert,
+    setPins,
+    verifyPin,
+    cancelAlert,
+    staff,
+    escalationRules,
+    alertTypes,
+    getAlertType,
+    getPriorityWeights,
+    escalations,
+    incomingAlerts,
+    dismissEscalation,
+    getStaffName,
+    transitionAlert,
+    closeAlert,
+    claimAlert,
+    assignAlert,
     updateLocation,
     refreshData
   };
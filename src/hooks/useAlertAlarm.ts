@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { useEmergency } from '../context/EmergencyContext';
+import {
+  AlarmSettings,
+  AlarmSound,
+  DEFAULT_ALARM_SETTINGS,
+  fetchAlarmSettings,
+  playAlarm,
+  saveAlarmSettings,
+  unlockAlarmAudio,
+} from '../lib/alarm';
+
+const TEST_ALARM_MS = 3000;
+
+const ALARM_FAVICON = `data:image/svg+xml,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><circle cx="16" cy="16" r="16" fill="#dc2626"/><text x="16" y="23" font-size="20" font-family="Arial" font-weight="bold" text-anchor="middle" fill="#fff">!</text></svg>'
+)}`;
+
+const notificationsSupported = () => typeof Notification !== 'undefined';
+
+// Makes new alerts impossible to miss from another tab or window: a looping
+// alarm, a desktop notification and a flashing title and favicon, all of which
+// stop once the alert is acknowledged. Sound settings are per operator.
+export function useAlertAlarm() {
+  const { user } = useAuth();
+  const { incomingAlerts, getAlertType, clients } = useEmergency();
+  const [settings, setSettings] = useState<AlarmSettings>(DEFAULT_ALARM_SETTINGS);
+  const notificationsRef = useRef(new Map<string, Notification | null>());
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    fetchAlarmSettings(userId)
+      .then(setSettings)
+      .catch(err => console.error('Error loading alarm settings:', err));
+  }, [userId]);
+
+  // Audio stays blocked until the operator has interacted with the page
+  useEffect(() => {
+    window.addEventListener('pointerdown', unlockAlarmAudio, { once: true });
+    window.addEventListener('keydown', unlockAlarmAudio, { once: true });
+
+    return () => {
+      window.removeEventListener('pointerdown', unlockAlarmAudio);
+      window.removeEventListener('keydown', unlockAlarmAudio);
+    };
+  }, []);
+
+  // With several alerts waiting, the most urgent type decides the sound
+  const soundingAlerts = settings.muted ? [] : incomingAlerts.filter(alert => !settings.mutedTypes.includes(alert.type));
+  const loudestType = soundingAlerts
+    .map(alert => getAlertType(alert.organizationId, alert.type))
+    .sort((a, b) => (b?.defaultPriority ?? 0) - (a?.defaultPriority ?? 0))[0];
+  const sound = soundingAlerts.length > 0 ? loudestType?.alarmSound ?? 'beep' : undefined;
+
+  useEffect(() => {
+    if (!sound) return;
+    return playAlarm(sound, settings.volume);
+  }, [sound, settings.volume]);
+
+  // One notification per alert, closed again once it is acknowledged
+  useEffect(() => {
+    const shown = notificationsRef.current;
+
+    incomingAlerts.forEach(alert => {
+      if (shown.has(alert.id)) return;
+
+      let notification: Notification | null = null;
+      if (settings.desktopNotifications && notificationsSupported() && Notification.permission === 'granted') {
+        const label = alert.duress ? 'Duress panic' : getAlertType(alert.organizationId, alert.type)?.label ?? alert.type;
+        const client = clients.find(c => c.id === alert.clientId);
+
+        notification = new Notification(`${label} alert`, {
+          body: `${client?.name ?? 'A client'} needs help`,
+          tag: alert.id,
+          requireInteraction: true,
+        });
+        notification.onclick = () => window.focus();
+      }
+      shown.set(alert.id, notification);
+    });
+
+    shown.forEach((notification, alertId) => {
+      if (incomingAlerts.some(alert => alert.id === alertId)) return;
+      notification?.close();
+      shown.delete(alertId);
+    });
+  }, [incomingAlerts, settings.desktopNotifications, getAlertType, clients]);
+
+  const waiting = incomingAlerts.length;
+
+  useEffect(() => {
+    if (waiting === 0) return;
+
+    const originalTitle = document.title;
+    const favicon = document.querySelector<HTMLLinkElement>("link[rel~='icon']");
+    const originalFavicon = favicon?.href;
+    let flashOn = false;
+
+    const interval = setInterval(() => {
+      flashOn = !flashOn;
+      document.title = flashOn ? `(${waiting}) NEW ALERT` : originalTitle;
+      if (favicon && originalFavicon) favicon.href = flashOn ? ALARM_FAVICON : originalFavicon;
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      document.title = originalTitle;
+      if (favicon && originalFavicon) favicon.href = originalFavicon;
+    };
+  }, [waiting]);
+
+  const updateSettings = useCallback(async (next: AlarmSettings) => {
+    if (!userId) return;
+
+    await saveAlarmSettings(userId, next);
+    setSettings(next);
+  }, [userId]);
+
+  // Plays regardless of mute so operators can check their speakers
+  const testAlarm = useCallback((testSound: AlarmSound, volume: number) => {
+    const stop = playAlarm(testSound, volume);
+    setTimeout(stop, TEST_ALARM_MS);
+
+    if (notificationsSupported() && Notification.permission === 'granted') {
+      new Notification('Test alarm', { body: 'Desktop notifications are working' });
+    }
+  }, []);
+
+  return { settings, updateSettings, testAlarm, ringing: waiting > 0 };
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { useEmergency } from '../context/EmergencyContext';
+
+export interface AlertViewer {
+  userId: string;
+  name: string;
+  alertId: string;
+}
+
+type PresencePayload = { name: string; alert_id: string | null };
+
+// Shares which alert each operator has open with everyone else on the same
+// organisation's console. Presence is ephemeral: it disappears with the tab.
+export function useAlertPresence(viewingAlertId: string | null) {
+  const { user } = useAuth();
+  const { organizationId, getStaffName } = useEmergency();
+  const [viewers, setViewers] = useState<AlertViewer[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  const userId = user?.id;
+  const name = getStaffName(userId) ?? user?.email ?? 'Operator';
+  const payloadRef = useRef<PresencePayload>({ name, alert_id: viewingAlertId });
+  payloadRef.current = { name, alert_id: viewingAlertId };
+
+  useEffect(() => {
+    // Super admins looking at every tenant have no single room to join
+    if (!userId || !organizationId) return;
+
+    const channel = supabase.channel(`alert_presence:${organizationId}`, {
+      config: { presence: { key: userId } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresencePayload>();
+        const next: AlertViewer[] = [];
+
+        Object.entries(state).forEach(([key, presences]) => {
+          if (key === userId) return;
+
+          presences.forEach(presence => {
+            if (!presence.alert_id || next.some(v => v.userId === key && v.alertId === presence.alert_id)) return;
+            next.push({ userId: key, name: presence.name, alertId: presence.alert_id });
+          });
+        });
+
+        setViewers(next);
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') channel.track(payloadRef.current);
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      setViewers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, organizationId]);
+
+  // Before the join completes the subscribe callback sends the latest payload instead
+  useEffect(() => {
+    const channel = channelRef.current;
+    if (channel?.state === 'joined') {
+      channel.track({ name, alert_id: viewingAlertId });
+    }
+  }, [viewingAlertId, name]);
+
+  const viewersOf = useCallback(
+    (alertId: string) => viewers.filter(viewer => viewer.alertId === alertId),
+    [viewers]
+  );
+
+  return { viewersOf };
+}
@@ -1,69 +1,28 @@
-import { useState, useEffect } from 'react';
-import { User } from '@supabase/supabase-js';
-import { supabase } from '../lib/supabase';
+import { createContext, useContext } from 'react';
+import { AuthError, AuthResponse, AuthTokenResponsePassword, AuthenticatorAssuranceLevels, User } from '@supabase/supabase-js';
+import { UserRole } from '../lib/roles';
+import { Permission } from '../lib/permissions';
+
+export interface AuthContextType {
+  user: User | null;
+  role: UserRole | null;
+  organizationId: string | null;
+  assuranceLevel: AuthenticatorAssuranceLevels | null;
+  nextAssuranceLevel: AuthenticatorAssuranceLevels | null;
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<AuthTokenResponsePassword>;
+  signUp: (email: string, password: string) => Promise<AuthResponse>;
+  signOut: () => Promise<{ error: AuthError | null }>;
+  isAdmin: () => boolean;
+  can: (permission: Permission) => boolean;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function useAuth() {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
-      setLoading(false);
-    });
-
-    // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        setUser(session?.user ?? null);
-        setLoading(false);
-      }
-    );
-
-    return () => subscription.unsubscribe();
-  }, []);
-
-  const signIn = async (email: string, password: string) => {
-    const { data, error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-    
-    // Auto-login: remember credentials in localStorage for convenience
-    if (data.user && !error) {
-      localStorage.setItem('lastLoginEmail', email);
-      if (email.includes('@admin.')) {
-        localStorage.setItem('adminAutoLogin', 'true');
-      }
-    }
-    
-    return { data, error };
-  };
-
-  const signUp = async (email: string, password: string) => {
-    const { data, error } = await supabase.auth.signUp({
-      email,
-      password,
-    });
-    return { data, error };
-  };
-
-  const signOut = async () => {
-    const { error } = await supabase.auth.signOut();
-    return { error };
-  };
-
-  const isAdmin = () => {
-    return user?.email?.includes('@admin.') || false;
-  };
-
-  return {
-    user,
-    loading,
-    signIn,
-    signUp,
-    signOut,
-    isAdmin,
-  };
-}
\ No newline at end of file
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,142 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { verifyPassword } from '../lib/supabase';
+import {
+  IDLE_TIMEOUT_MS,
+  MAX_SHIFT_MS,
+  MAX_UNLOCK_ATTEMPTS,
+  readConsoleSession,
+  writeConsoleSession,
+  recordSessionEvent,
+} from '../lib/sessionPolicy';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+
+// Locks the staff console after inactivity and ends the session after a full shift.
+// Only the UI is locked; data providers stay mounted so realtime feeds keep running.
+export function useConsoleLock() {
+  const { user, signOut } = useAuth();
+  const [locked, setLocked] = useState(false);
+  const [shiftEndsAt, setShiftEndsAt] = useState<number | null>(null);
+  const lockedRef = useRef(false);
+  const expiredRef = useRef(false);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const session = readConsoleSession(userId);
+    lockedRef.current = session.locked;
+    setLocked(session.locked);
+    setFailedAttempts(session.failedAttempts);
+    setShiftEndsAt(session.startedAt + MAX_SHIFT_MS);
+
+    // A reload after the last allowed attempt must not offer another one
+    if (session.failedAttempts >= MAX_UNLOCK_ATTEMPTS) {
+      signOut();
+    }
+  }, [userId, signOut]);
+
+  const setLockState = useCallback((value: boolean) => {
+    if (!userId) return;
+
+    lockedRef.current = value;
+    setLocked(value);
+    writeConsoleSession({ ...readConsoleSession(userId), locked: value });
+  }, [userId]);
+
+  const lock = useCallback((reason: 'idle' | 'manual') => {
+    if (!userId || lockedRef.current) return;
+
+    setLockState(true);
+    recordSessionEvent(userId, 'lock', reason);
+  }, [userId, setLockState]);
+
+  // Idle timer, restarted on any activity while unlocked
+  useEffect(() => {
+    if (!userId || locked) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => lock('idle'), IDLE_TIMEOUT_MS);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, reset, { passive: true }));
+    reset();
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, reset));
+    };
+  }, [userId, locked, lock]);
+
+  // Hard expiry at the end of the shift, locked or not
+  useEffect(() => {
+    if (!userId || !shiftEndsAt) return;
+
+    const check = async () => {
+      if (expiredRef.current || Date.now() < shiftEndsAt) return;
+
+      expiredRef.current = true;
+      await recordSessionEvent(userId, 'expired', 'max_shift');
+      await signOut();
+    };
+
+    check();
+    const interval = setInterval(check, 30 * 1000);
+    return () => clearInterval(interval);
+  }, [userId, shiftEndsAt, signOut]);
+
+  const recordFailedAttempts = (count: number) => {
+    if (!userId) return;
+
+    setFailedAttempts(count);
+    writeConsoleSession({ ...readConsoleSession(userId), failedAttempts: count });
+  };
+
+  const unlock = async (password: string) => {
+    if (!userId || !user?.email) return false;
+
+    if (await verifyPassword(user.email, password)) {
+      recordFailedAttempts(0);
+      setLockState(false);
+      recordSessionEvent(userId, 'unlock');
+      return true;
+    }
+
+    // Counted from storage so attempts made before a reload or in another tab add up
+    const attempts = readConsoleSession(userId).failedAttempts + 1;
+    recordFailedAttempts(attempts);
+    await recordSessionEvent(userId, 'unlock_failed');
+
+    if (attempts >= MAX_UNLOCK_ATTEMPTS) {
+      await signOut();
+    }
+
+    return false;
+  };
+
+  const lockManually = useCallback(() => lock('manual'), [lock]);
+
+  return {
+    locked,
+    lock: lockManually,
+    unlock,
+    shiftEndsAt,
+    attemptsRemaining: Math.max(0, MAX_UNLOCK_ATTEMPTS - failedAttempts),
+  };
+}
+
+// Locks the console by hand from any page under the ConsoleLockProvider
+export const ConsoleLockContext = createContext<(() => void) | undefined>(undefined);
+
+export function useLockConsole() {
+  const context = useContext(ConsoleLockContext);
+  if (context === undefined) {
+    throw new Error('useLockConsole must be used within a ConsoleLockProvider');
+  }
+  return context;
+}
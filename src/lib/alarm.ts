@@ -0,0 +1,156 @@
+import { supabase } from './supabase';
+
+export type AlarmSound = 'siren' | 'pulse' | 'chime' | 'beep';
+
+interface Tone {
+  // Seconds from the start of the cycle
+  start: number;
+  duration: number;
+  frequency: number;
+  // Sweeps to this frequency over the tone when set
+  sweepTo?: number;
+}
+
+interface AlarmPattern {
+  label: string;
+  wave: OscillatorType;
+  // One repetition of the loop, in seconds
+  cycle: number;
+  tones: Tone[];
+}
+
+// Synthesised rather than shipped as audio files, so nothing has to load before
+// the first alert. Mirrors the alarm_sound check on alert_types.
+export const ALARM_SOUNDS: Record<AlarmSound, AlarmPattern> = {
+  siren: {
+    label: 'Siren',
+    wave: 'sawtooth',
+    cycle: 1,
+    tones: [
+      { start: 0, duration: 0.5, frequency: 600, sweepTo: 1200 },
+      { start: 0.5, duration: 0.5, frequency: 1200, sweepTo: 600 },
+    ],
+  },
+  pulse: {
+    label: 'Rapid pulse',
+    wave: 'square',
+    cycle: 1.2,
+    tones: [
+      { start: 0, duration: 0.12, frequency: 880 },
+      { start: 0.2, duration: 0.12, frequency: 880 },
+      { start: 0.4, duration: 0.12, frequency: 880 },
+    ],
+  },
+  chime: {
+    label: 'Chime',
+    wave: 'sine',
+    cycle: 2.5,
+    tones: [
+      { start: 0, duration: 0.4, frequency: 660 },
+      { start: 0.4, duration: 0.7, frequency: 880 },
+    ],
+  },
+  beep: {
+    label: 'Beep',
+    wave: 'square',
+    cycle: 1.5,
+    tones: [{ start: 0, duration: 0.3, frequency: 1000 }],
+  },
+};
+
+export interface AlarmSettings {
+  muted: boolean;
+  // 0 to 1
+  volume: number;
+  // Alert type keys that flash and notify but do not sound
+  mutedTypes: string[];
+  desktopNotifications: boolean;
+}
+
+export const DEFAULT_ALARM_SETTINGS: AlarmSettings = {
+  muted: false,
+  volume: 1,
+  mutedTypes: [],
+  desktopNotifications: true,
+};
+
+let audioContext: AudioContext | null = null;
+
+// Browsers keep audio suspended until the page has had a click or key press,
+// so this is also called from input handlers to get the alarm ready
+export function unlockAlarmAudio() {
+  audioContext ??= new AudioContext();
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(err => console.error('Error resuming alarm audio:', err));
+  }
+  return audioContext;
+}
+
+// Loops the sound until the returned function is called
+export function playAlarm(sound: AlarmSound, volume: number) {
+  const context = unlockAlarmAudio();
+  const pattern = ALARM_SOUNDS[sound];
+  const output = context.createGain();
+  output.gain.value = volume;
+  output.connect(context.destination);
+
+  const scheduleCycle = () => {
+    const cycleStart = context.currentTime + 0.05;
+
+    pattern.tones.forEach(tone => {
+      const start = cycleStart + tone.start;
+      const end = start + tone.duration;
+      const oscillator = context.createOscillator();
+
+      oscillator.type = pattern.wave;
+      oscillator.frequency.setValueAtTime(tone.frequency, start);
+      if (tone.sweepTo) {
+        oscillator.frequency.linearRampToValueAtTime(tone.sweepTo, end);
+      }
+      oscillator.connect(output);
+      oscillator.start(start);
+      oscillator.stop(end);
+    });
+  };
+
+  scheduleCycle();
+  const interval = setInterval(scheduleCycle, pattern.cycle * 1000);
+
+  return () => {
+    clearInterval(interval);
+    output.disconnect();
+  };
+}
+
+export async function fetchAlarmSettings(userId: string): Promise<AlarmSettings> {
+  const { data, error } = await supabase
+    .from('operator_alarm_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return DEFAULT_ALARM_SETTINGS;
+
+  return {
+    muted: data.muted,
+    volume: Number(data.volume),
+    mutedTypes: data.muted_types,
+    desktopNotifications: data.desktop_notifications,
+  };
+}
+
+export async function saveAlarmSettings(userId: string, settings: AlarmSettings) {
+  const { error } = await supabase
+    .from('operator_alarm_settings')
+    .upsert({
+      user_id: userId,
+      muted: settings.muted,
+      volume: settings.volume,
+      muted_types: settings.mutedTypes,
+      desktop_notifications: settings.desktopNotifications,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+}
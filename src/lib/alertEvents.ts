@@ -0,0 +1,84 @@
+import { supabase } from './supabase';
+import { AlertStatus, STATUS_LABELS } from './alertLifecycle';
+import { ESCALATION_ACTION_LABELS, EscalationAction } from './escalation';
+
+export interface AlertEvent {
+  id: string;
+  alertId: string;
+  eventType: 'created' | 'status_changed' | 'escalated' | 'assigned' | 'cancel_rejected' | 'repeat_press';
+  fromStatus?: AlertStatus;
+  toStatus?: AlertStatus;
+  actorId?: string;
+  note?: string;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+// Full history of one alert, oldest first
+export async function fetchAlertEvents(alertId: string) {
+  const { data, error } = await supabase
+    .from('alert_events')
+    .select('*')
+    .eq('alert_id', alertId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return data.map((event): AlertEvent => ({
+    id: event.id,
+    alertId: event.alert_id,
+    eventType: event.event_type,
+    fromStatus: event.from_status ?? undefined,
+    toStatus: event.to_status ?? undefined,
+    actorId: event.actor_id ?? undefined,
+    note: event.note ?? undefined,
+    details: event.details ?? undefined,
+    createdAt: new Date(event.created_at),
+  }));
+}
+
+// Timeline wording for an event. `actorName` resolves the client's own id to
+// their name, since clients close their own alerts when they cancel with their PIN
+export function describeAlertEvent(
+  event: AlertEvent,
+  { clientName, actorName }: {
+    clientName: string;
+    actorName: (userId: string | undefined) => string | undefined;
+  }
+) {
+  switch (event.eventType) {
+    case 'created':
+      return { title: 'Alert raised', actor: clientName };
+    case 'assigned':
+      return {
+        title: event.details?.assigned_to
+          ? `Assigned to ${actorName(event.details.assigned_to as string)}`
+          : 'Unassigned',
+        actor: actorName(event.actorId) ?? 'System'
+      };
+    case 'repeat_press':
+      return {
+        title: event.details?.upgraded_from
+          ? `Pressed again as ${event.details.type} - upgraded from ${event.details.upgraded_from}`
+          : `Pressed again (${event.details?.press_count} presses)`,
+        actor: clientName
+      };
+    case 'cancel_rejected':
+      return {
+        title: event.details?.reason === 'duress_pin'
+          ? 'Duress PIN entered when cancelling - alert kept live'
+          : 'Wrong PIN entered when cancelling - alert kept live',
+        actor: clientName
+      };
+    case 'escalated':
+      return {
+        title: `Escalated to level ${event.details?.level}`,
+        actor: ESCALATION_ACTION_LABELS[event.details?.action as EscalationAction] ?? 'Automatic escalation'
+      };
+    default:
+      return {
+        title: `${event.fromStatus ? STATUS_LABELS[event.fromStatus] : '—'} → ${event.toStatus ? STATUS_LABELS[event.toStatus] : '—'}`,
+        actor: actorName(event.actorId) ?? 'System'
+      };
+  }
+}
@@ -0,0 +1,111 @@
+import { supabase } from './supabase';
+import { AlertStatus } from './alertLifecycle';
+import { AlertRow, formatAlert } from './alerts';
+import type { Alert } from '../context/EmergencyContext';
+
+export const HISTORY_PAGE_SIZE = 25;
+
+// Exports fetch every match in batches, up to this many alerts
+export const HISTORY_EXPORT_LIMIT = 10000;
+const EXPORT_BATCH_SIZE = 1000;
+
+export interface HistoryFilters {
+  // Calendar dates (yyyy-mm-dd) in the operator's time zone, both inclusive
+  from?: string;
+  to?: string;
+  type?: string;
+  status?: AlertStatus;
+  clientId?: string;
+  operatorId?: string;
+  query?: string;
+  page: number;
+}
+
+// Short names keep shared history links readable
+const PARAM_NAMES: Record<Exclude<keyof HistoryFilters, 'page'>, string> = {
+  from: 'from',
+  to: 'to',
+  type: 'type',
+  status: 'status',
+  clientId: 'client',
+  operatorId: 'operator',
+  query: 'q',
+};
+
+export function filtersFromParams(params: URLSearchParams): HistoryFilters {
+  const get = (key: keyof typeof PARAM_NAMES) => params.get(PARAM_NAMES[key]) || undefined;
+
+  return {
+    from: get('from'),
+    to: get('to'),
+    type: get('type'),
+    status: get('status') as AlertStatus | undefined,
+    clientId: get('clientId'),
+    operatorId: get('operatorId'),
+    query: get('query'),
+    page: Math.max(1, parseInt(params.get('page') ?? '', 10) || 1),
+  };
+}
+
+// Empty filters and the first page are left out of the URL
+export function filtersToParams(filters: HistoryFilters) {
+  const params: Record<string, string> = {};
+
+  (Object.keys(PARAM_NAMES) as (keyof typeof PARAM_NAMES)[]).forEach(key => {
+    const value = filters[key]?.trim();
+    if (value) params[PARAM_NAMES[key]] = value;
+  });
+
+  if (filters.page > 1) params.page = String(filters.page);
+
+  return params;
+}
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`);
+
+function searchQuery(organizationId: string | null, filters: HistoryFilters) {
+  const until = filters.to ? startOfDay(filters.to) : undefined;
+  until?.setDate(until.getDate() + 1);
+
+  return supabase
+    .rpc('search_alerts', {
+      p_organization_id: organizationId,
+      p_from: filters.from ? startOfDay(filters.from).toISOString() : null,
+      p_to: until ? until.toISOString() : null,
+      p_type: filters.type || null,
+      p_status: filters.status || null,
+      p_client_id: filters.clientId || null,
+      p_operator_id: filters.operatorId || null,
+      p_query: filters.query?.trim() || null,
+    }, { count: 'exact' });
+}
+
+export async function searchAlerts(organizationId: string | null, filters: HistoryFilters) {
+  const offset = (filters.page - 1) * HISTORY_PAGE_SIZE;
+  const { data, error, count } = await searchQuery(organizationId, filters)
+    .range(offset, offset + HISTORY_PAGE_SIZE - 1);
+
+  if (error) throw error;
+
+  return {
+    alerts: (data as AlertRow[]).map(formatAlert),
+    total: count ?? 0,
+  };
+}
+
+// Every alert matching the filters, ignoring the page
+export async function fetchAllMatchingAlerts(organizationId: string | null, filters: HistoryFilters) {
+  const alerts: Alert[] = [];
+
+  while (alerts.length < HISTORY_EXPORT_LIMIT) {
+    const { data, error } = await searchQuery(organizationId, filters)
+      .range(alerts.length, alerts.length + EXPORT_BATCH_SIZE - 1);
+
+    if (error) throw error;
+
+    alerts.push(...(data as AlertRow[]).map(formatAlert));
+    if (data.length < EXPORT_BATCH_SIZE) break;
+  }
+
+  return alerts.slice(0, HISTORY_EXPORT_LIMIT);
+}
@@ -0,0 +1,118 @@
+import { Permission } from './permissions';
+
+export type AlertStatus =
+  | 'active'
+  | 'acknowledged'
+  | 'dispatched'
+  | 'en_route'
+  | 'on_scene'
+  | 'resolved'
+  | 'false_alarm'
+  | 'cancelled';
+
+// Stages an incident moves through while it still needs handling, in order
+export const OPEN_STATUSES: AlertStatus[] = ['active', 'acknowledged', 'dispatched', 'en_route', 'on_scene'];
+
+export const CLOSED_STATUSES: AlertStatus[] = ['resolved', 'false_alarm', 'cancelled'];
+
+// How long a client can call off their own alert with their PIN. Mirrors
+// client_cancel_alert in the database.
+export const CLIENT_CANCEL_WINDOW_MS = 3 * 60 * 1000;
+
+// Closed alerts stay on the operator dashboard this long; older ones are found
+// through the incident history
+export const RECENTLY_CLOSED_MS = 24 * 60 * 60 * 1000;
+
+// Mirrors the alert_status_transitions table seeded in the database, whose
+// trigger rejects anything not listed here. Keep both in sync.
+export const ALERT_TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+  active: ['acknowledged', 'resolved', 'false_alarm', 'cancelled'],
+  acknowledged: ['dispatched', 'resolved', 'false_alarm', 'cancelled'],
+  dispatched: ['en_route', 'resolved', 'false_alarm', 'cancelled'],
+  en_route: ['on_scene', 'resolved', 'false_alarm', 'cancelled'],
+  on_scene: ['resolved', 'false_alarm'],
+  // Reopening needs a reason
+  resolved: ['active'],
+  false_alarm: ['active'],
+  cancelled: ['active'],
+};
+
+// Permission needed to move an alert into each status
+export const STATUS_PERMISSIONS: Record<AlertStatus, Permission | null> = {
+  active: 'alert.resolve',
+  acknowledged: 'alert.acknowledge',
+  dispatched: 'alert.dispatch',
+  en_route: 'alert.dispatch',
+  on_scene: 'alert.dispatch',
+  resolved: 'alert.resolve',
+  false_alarm: 'alert.resolve',
+  cancelled: 'alert.resolve',
+};
+
+export const STATUS_LABELS: Record<AlertStatus, string> = {
+  active: 'Active',
+  acknowledged: 'Acknowledged',
+  dispatched: 'Dispatched',
+  en_route: 'En Route',
+  on_scene: 'On Scene',
+  resolved: 'Resolved',
+  false_alarm: 'False Alarm',
+  cancelled: 'Cancelled',
+};
+
+// Button text for moving an alert into each status
+export const TRANSITION_LABELS: Record<AlertStatus, string> = {
+  active: 'Reopen',
+  acknowledged: 'Acknowledge',
+  dispatched: 'Dispatch',
+  en_route: 'En Route',
+  on_scene: 'On Scene',
+  resolved: 'Resolve',
+  false_alarm: 'False Alarm',
+  cancelled: 'Cancel',
+};
+
+// Badge and column header colours for each status
+export const STATUS_STYLES: Record<AlertStatus, string> = {
+  active: 'bg-red-50 text-red-900',
+  acknowledged: 'bg-yellow-50 text-yellow-900',
+  dispatched: 'bg-indigo-50 text-indigo-900',
+  en_route: 'bg-blue-50 text-blue-900',
+  on_scene: 'bg-purple-50 text-purple-900',
+  resolved: 'bg-green-50 text-green-900',
+  false_alarm: 'bg-gray-50 text-gray-900',
+  cancelled: 'bg-gray-50 text-gray-900',
+};
+
+// Button colours for moving an alert into each status
+export const ACTION_STYLES: Record<AlertStatus, string> = {
+  active: 'bg-red-600 hover:bg-red-700 text-white',
+  acknowledged: 'bg-yellow-600 hover:bg-yellow-700 text-white',
+  dispatched: 'bg-indigo-600 hover:bg-indigo-700 text-white',
+  en_route: 'bg-blue-600 hover:bg-blue-700 text-white',
+  on_scene: 'bg-purple-600 hover:bg-purple-700 text-white',
+  resolved: 'bg-green-600 hover:bg-green-700 text-white',
+  false_alarm: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+  cancelled: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+};
+
+export function canTransition(from: AlertStatus, to: AlertStatus) {
+  return ALERT_TRANSITIONS[from].includes(to);
+}
+
+// Next statuses a role is allowed to move an alert into
+export function allowedTransitions(from: AlertStatus, hasPermission: (permission: Permission) => boolean) {
+  return ALERT_TRANSITIONS[from].filter(status => {
+    const permission = STATUS_PERMISSIONS[status];
+    return !permission || hasPermission(permission);
+  });
+}
+
+export function isOpenStatus(status: AlertStatus) {
+  return OPEN_STATUSES.includes(status);
+}
+
+// Whether the client can still call off this alert themselves
+export function canClientCancel(alert: { status: AlertStatus; timestamp: Date }, now = Date.now()) {
+  return canTransition(alert.status, 'cancelled') && now - alert.timestamp.getTime() < CLIENT_CANCEL_WINDOW_MS;
+}
@@ -0,0 +1,102 @@
+import { supabase, Database } from './supabase';
+
+export const ALERT_MEDIA_BUCKET = 'alert-media';
+
+// Kept small so uploads finish quickly over a mobile connection
+export const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+export const MAX_VOICE_NOTE_SECONDS = 60;
+
+// Signed URLs outlive a shift on the console
+const SIGNED_URL_SECONDS = 12 * 60 * 60;
+
+export type AlertMediaKind = 'photo' | 'audio';
+
+export interface AlertMedia {
+  id: string;
+  alertId: string;
+  uploadedBy: string;
+  kind: AlertMediaKind;
+  storagePath: string;
+  mimeType: string;
+  sizeBytes: number;
+  durationSeconds?: number;
+  createdAt: Date;
+  // Signed URL of the file; missing when signing failed
+  url?: string;
+}
+
+export type AlertMediaRow = Database['public']['Tables']['alert_media']['Row'];
+
+export const formatAlertMedia = (media: AlertMediaRow): AlertMedia => ({
+  id: media.id,
+  alertId: media.alert_id,
+  uploadedBy: media.uploaded_by,
+  kind: media.kind,
+  storagePath: media.storage_path,
+  mimeType: media.mime_type,
+  sizeBytes: media.size_bytes,
+  durationSeconds: media.duration_seconds ?? undefined,
+  createdAt: new Date(media.created_at),
+});
+
+export async function signAlertMedia(media: AlertMedia[]) {
+  if (media.length === 0) return media;
+
+  const { data, error } = await supabase.storage
+    .from(ALERT_MEDIA_BUCKET)
+    .createSignedUrls(media.map(m => m.storagePath), SIGNED_URL_SECONDS);
+
+  if (error) throw error;
+
+  const urls = new Map(data.map(signed => [signed.path, signed.signedUrl]));
+  return media.map(m => ({ ...m, url: urls.get(m.storagePath) }));
+}
+
+// Media attached to one alert, oldest first, with signed URLs
+export async function fetchAlertMedia(alertId: string) {
+  const { data, error } = await supabase
+    .from('alert_media')
+    .select('*')
+    .eq('alert_id', alertId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return signAlertMedia(data.map(formatAlertMedia));
+}
+
+// "audio/webm;codecs=opus" -> "webm"
+const extensionFor = (mimeType: string) => mimeType.split('/')[1]?.split(';')[0].replace('jpeg', 'jpg') || 'bin';
+
+export async function uploadAlertMedia(
+  alertId: string,
+  file: Blob,
+  kind: AlertMediaKind,
+  durationSeconds?: number
+) {
+  const mimeType = file.type || (kind === 'photo' ? 'image/jpeg' : 'audio/webm');
+  const storagePath = `${alertId}/${crypto.randomUUID()}.${extensionFor(mimeType)}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(ALERT_MEDIA_BUCKET)
+    .upload(storagePath, file, { contentType: mimeType });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('alert_media')
+    .insert({
+      alert_id: alertId,
+      kind,
+      storage_path: storagePath,
+      mime_type: mimeType,
+      size_bytes: file.size,
+      duration_seconds: durationSeconds ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return formatAlertMedia(data);
+}
@@ -0,0 +1,66 @@
+import { supabase, Database } from './supabase';
+
+export type MessageSide = 'client' | 'staff';
+
+export interface AlertMessage {
+  id: string;
+  alertId: string;
+  senderId: string;
+  senderRole: MessageSide;
+  body: string;
+  // When the other side first saw the message
+  readAt?: Date;
+  createdAt: Date;
+}
+
+// One-tap replies for operators; kept short enough to read on a phone under stress
+export const CANNED_REPLIES = [
+  'We have received your alert and are on it.',
+  'Help has been dispatched to your location.',
+  'A responder is on the way. Stay where you are if it is safe.',
+  'Are you able to talk? Reply here if not.',
+  'Please move to a safe place and keep your phone with you.',
+  'Responders are nearby. Look out for them.',
+];
+
+export type AlertMessageRow = Database['public']['Tables']['alert_messages']['Row'];
+
+export const formatAlertMessage = (message: AlertMessageRow): AlertMessage => ({
+  id: message.id,
+  alertId: message.alert_id,
+  senderId: message.sender_id,
+  senderRole: message.sender_role,
+  body: message.body,
+  readAt: message.read_at ? new Date(message.read_at) : undefined,
+  createdAt: new Date(message.created_at),
+});
+
+// Chat of one alert, oldest first
+export async function fetchAlertMessages(alertId: string) {
+  const { data, error } = await supabase
+    .from('alert_messages')
+    .select('*')
+    .eq('alert_id', alertId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return data.map(formatAlertMessage);
+}
+
+export async function sendAlertMessage(alertId: string, body: string) {
+  const { data, error } = await supabase
+    .from('alert_messages')
+    .insert({ alert_id: alertId, body: body.trim() })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return formatAlertMessage(data);
+}
+
+export async function markAlertMessagesRead(alertId: string) {
+  const { error } = await supabase.rpc('mark_alert_messages_read', { p_alert_id: alertId });
+  if (error) throw error;
+}
@@ -0,0 +1,44 @@
+import { supabase, Database } from './supabase';
+
+export interface AlertNote {
+  id: string;
+  alertId: string;
+  authorId: string;
+  body: string;
+  createdAt: Date;
+}
+
+export type AlertNoteRow = Database['public']['Tables']['alert_notes']['Row'];
+
+export const formatAlertNote = (note: AlertNoteRow): AlertNote => ({
+  id: note.id,
+  alertId: note.alert_id,
+  authorId: note.author_id,
+  body: note.body,
+  createdAt: new Date(note.created_at),
+});
+
+// Notes thread of one alert, oldest first
+export async function fetchAlertNotes(alertId: string) {
+  const { data, error } = await supabase
+    .from('alert_notes')
+    .select('*')
+    .eq('alert_id', alertId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return data.map(formatAlertNote);
+}
+
+export async function addAlertNote(alertId: string, body: string) {
+  const { data, error } = await supabase
+    .from('alert_notes')
+    .insert({ alert_id: alertId, body: body.trim() })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return formatAlertNote(data);
+}
@@ -0,0 +1,53 @@
+import { supabase } from './supabase';
+import type { Alert } from '../context/EmergencyContext';
+
+export type ProgressState = 'done' | 'current' | 'pending' | 'skipped';
+
+export interface ProgressStep {
+  label: string;
+  at?: Date;
+  state: ProgressState;
+}
+
+// What the client sees of their alert. Fewer stages than the operator board:
+// en route and on scene are folded into "responder dispatched".
+export function clientProgress(alert: Alert): ProgressStep[] {
+  const closed = alert.resolvedAt !== undefined;
+  const closedLabel = alert.status === 'cancelled'
+    ? 'Cancelled'
+    : alert.status === 'false_alarm' ? 'Closed' : 'Resolved';
+
+  const steps = [
+    { label: 'Alert sent', at: alert.timestamp },
+    { label: 'Seen by the control room', at: alert.acknowledgedAt },
+    { label: 'Responder dispatched', at: alert.dispatchedAt },
+    { label: closed ? closedLabel : 'Resolved', at: alert.resolvedAt },
+  ];
+
+  const reached = steps.reduce((last, step, index) => (step.at ? index : last), 0);
+
+  return steps.map((step, index): ProgressStep => ({
+    ...step,
+    // Alerts can be closed straight from any stage, leaving earlier ones unreached
+    state: step.at
+      ? 'done'
+      : index < reached ? 'skipped' : index === reached + 1 ? 'current' : 'pending',
+  }));
+}
+
+// Short line under the dispatched step once the responder reports in
+export function responderUpdate(alert: Alert) {
+  if (alert.resolvedAt) return undefined;
+  if (alert.onSceneAt) return `Responder arrived ${alert.onSceneAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  if (alert.enRouteAt) return 'Responder is on the way';
+  return undefined;
+}
+
+// First name of the operator handling the alert; clients cannot list staff,
+// so this goes through a function that only reveals that much
+export async function fetchResponderName(alertId: string) {
+  const { data, error } = await supabase.rpc('alert_responder_name', { p_alert_id: alertId });
+  if (error) throw error;
+
+  return (data as string | null) ?? undefined;
+}
@@ -0,0 +1,137 @@
+import {
+  AlertTriangle,
+  Car,
+  Droplets,
+  Flame,
+  Footprints,
+  HeartPulse,
+  HelpCircle,
+  Home,
+  LucideIcon,
+  ShieldAlert,
+  Siren,
+  Stethoscope,
+  UserX,
+  Zap,
+} from 'lucide-react';
+import { supabase, Database } from './supabase';
+import { AlarmSound } from './alarm';
+
+export interface AlertType {
+  id: string;
+  organizationId: string;
+  // Stored in alerts.type; fixed once created
+  key: string;
+  label: string;
+  description: string;
+  icon: string;
+  color: string;
+  defaultPriority: number;
+  // Looping sound on the operator console while an alert of this type is unacknowledged
+  alarmSound: AlarmSound;
+  // Standard operating procedure shown to operators handling the alert
+  sop: string;
+  sortOrder: number;
+  active: boolean;
+}
+
+// Duress PINs always raise this type, so it can not be deactivated
+export const PANIC_ALERT_TYPE = 'panic';
+
+export const ALERT_TYPE_ICONS: Record<string, LucideIcon> = {
+  'alert-triangle': AlertTriangle,
+  car: Car,
+  'help-circle': HelpCircle,
+  flame: Flame,
+  'heart-pulse': HeartPulse,
+  stethoscope: Stethoscope,
+  'shield-alert': ShieldAlert,
+  siren: Siren,
+  home: Home,
+  droplets: Droplets,
+  zap: Zap,
+  footprints: Footprints,
+  'user-x': UserX,
+};
+
+// Full class names so Tailwind keeps them in the build
+export const ALERT_TYPE_COLORS: Record<string, { button: string; marker: string; icon: string }> = {
+  red: { button: 'bg-red-600 hover:bg-red-700 focus:ring-red-500', marker: 'bg-red-600', icon: 'text-red-600 bg-red-50' },
+  orange: { button: 'bg-orange-600 hover:bg-orange-700 focus:ring-orange-500', marker: 'bg-orange-600', icon: 'text-orange-600 bg-orange-50' },
+  amber: { button: 'bg-amber-500 hover:bg-amber-600 focus:ring-amber-400', marker: 'bg-amber-500', icon: 'text-amber-600 bg-amber-50' },
+  green: { button: 'bg-green-600 hover:bg-green-700 focus:ring-green-500', marker: 'bg-green-600', icon: 'text-green-600 bg-green-50' },
+  teal: { button: 'bg-teal-600 hover:bg-teal-700 focus:ring-teal-500', marker: 'bg-teal-600', icon: 'text-teal-600 bg-teal-50' },
+  blue: { button: 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500', marker: 'bg-blue-600', icon: 'text-blue-600 bg-blue-50' },
+  purple: { button: 'bg-purple-600 hover:bg-purple-700 focus:ring-purple-500', marker: 'bg-purple-600', icon: 'text-purple-600 bg-purple-50' },
+  pink: { button: 'bg-pink-600 hover:bg-pink-700 focus:ring-pink-500', marker: 'bg-pink-600', icon: 'text-pink-600 bg-pink-50' },
+  gray: { button: 'bg-gray-600 hover:bg-gray-700 focus:ring-gray-500', marker: 'bg-gray-600', icon: 'text-gray-600 bg-gray-50' },
+};
+
+export function alertTypeIcon(alertType: AlertType | undefined) {
+  return (alertType && ALERT_TYPE_ICONS[alertType.icon]) || AlertTriangle;
+}
+
+export function alertTypeColor(alertType: AlertType | undefined) {
+  return (alertType && ALERT_TYPE_COLORS[alertType.color]) || ALERT_TYPE_COLORS.red;
+}
+
+// Types that have been deactivated still name their old alerts
+export function alertTypeLabel(alertType: AlertType | undefined, key: string) {
+  return alertType?.label ?? key;
+}
+
+type AlertTypeRow = Database['public']['Tables']['alert_types']['Row'];
+
+const formatAlertType = (row: AlertTypeRow): AlertType => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  key: row.key,
+  label: row.label,
+  description: row.description,
+  icon: row.icon,
+  color: row.color,
+  defaultPriority: row.default_priority,
+  alarmSound: row.alarm_sound,
+  sop: row.sop,
+  sortOrder: row.sort_order,
+  active: row.active,
+});
+
+export async function fetchAlertTypes(organizationId: string | null) {
+  let query = supabase
+    .from('alert_types')
+    .select('*')
+    .order('sort_order')
+    .order('label');
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data.map(formatAlertType);
+}
+
+export async function saveAlertType(alertType: Omit<AlertType, 'id'> & { id?: string }) {
+  const { error } = await supabase
+    .from('alert_types')
+    .upsert({
+      id: alertType.id,
+      organization_id: alertType.organizationId,
+      key: alertType.key,
+      label: alertType.label.trim(),
+      description: alertType.description.trim(),
+      icon: alertType.icon,
+      color: alertType.color,
+      default_priority: alertType.defaultPriority,
+      alarm_sound: alertType.alarmSound,
+      sop: alertType.sop.trim(),
+      sort_order: alertType.sortOrder,
+      active: alertType.active,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+}
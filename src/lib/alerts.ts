@@ -0,0 +1,77 @@
+import { Database } from './supabase';
+import type { Alert } from '../context/EmergencyContext';
+
+export type AlertRow = Database['public']['Tables']['alerts']['Row'];
+
+const toDate = (value: string | null) => (value ? new Date(value) : undefined);
+
+export const formatAlert = (alert: AlertRow): Alert => ({
+  id: alert.id,
+  organizationId: alert.organization_id,
+  clientId: alert.client_id,
+  type: alert.type,
+  status: alert.status,
+  message: alert.message ?? undefined,
+  duress: alert.duress,
+  duressAt: toDate(alert.duress_at),
+  escalationLevel: alert.escalation_level,
+  assignedTo: alert.assigned_to ?? undefined,
+  assignedAt: toDate(alert.assigned_at),
+  cancelledByClient: alert.cancelled_by_client,
+  priorityBoost: alert.priority_boost,
+  pressCount: alert.press_count,
+  lastPressedAt: new Date(alert.last_pressed_at),
+  location: {
+    lat: Number(alert.location_lat),
+    lng: Number(alert.location_lng)
+  },
+  timestamp: new Date(alert.created_at),
+  acknowledgedAt: toDate(alert.acknowledged_at),
+  acknowledgedBy: alert.acknowledged_by ?? undefined,
+  dispatchedAt: toDate(alert.dispatched_at),
+  dispatchedBy: alert.dispatched_by ?? undefined,
+  enRouteAt: toDate(alert.en_route_at),
+  onSceneAt: toDate(alert.on_scene_at),
+  resolvedAt: toDate(alert.resolved_at),
+  resolvedBy: alert.resolved_by ?? undefined,
+  resolutionCode: alert.resolution_code ?? undefined,
+  resolutionSummary: alert.resolution_summary ?? undefined,
+  reopenedAt: toDate(alert.reopened_at)
+});
+
+const before = (date: Date | undefined, limit: Date) => (date && date <= limit ? date : undefined);
+
+// What the client's own screen shows. A duress "cancellation" keeps the alert
+// live for the control room, so someone watching the screen must see exactly
+// what a real cancellation shows: the alert as it was, cancelled at that moment
+export function clientFacingAlert(alert: Alert): Alert {
+  if (!alert.duress || !alert.duressAt) return alert;
+
+  const at = alert.duressAt;
+  const acknowledgedAt = before(alert.acknowledgedAt, at);
+  const dispatchedAt = before(alert.dispatchedAt, at);
+  const assignedAt = before(alert.assignedAt, at);
+
+  return {
+    ...alert,
+    status: 'cancelled',
+    duress: false,
+    duressAt: undefined,
+    cancelledByClient: true,
+    priorityBoost: 0,
+    escalationLevel: 0,
+    assignedTo: assignedAt ? alert.assignedTo : undefined,
+    assignedAt,
+    acknowledgedAt,
+    acknowledgedBy: acknowledgedAt ? alert.acknowledgedBy : undefined,
+    dispatchedAt,
+    dispatchedBy: dispatchedAt ? alert.dispatchedBy : undefined,
+    enRouteAt: before(alert.enRouteAt, at),
+    onSceneAt: before(alert.onSceneAt, at),
+    resolvedAt: at,
+    resolvedBy: alert.clientId,
+    resolutionCode: undefined,
+    resolutionSummary: undefined,
+    reopenedAt: before(alert.reopenedAt, at),
+  };
+}
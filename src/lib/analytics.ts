@@ -0,0 +1,183 @@
+import { supabase } from './supabase';
+
+export type AnalyticsRange = '7d' | '30d' | '90d' | '365d';
+export type AnalyticsBucket = 'day' | 'week' | 'month';
+
+export const ANALYTICS_RANGES: Record<AnalyticsRange, { label: string; days: number; bucket: AnalyticsBucket }> = {
+  '7d': { label: 'Last 7 days', days: 7, bucket: 'day' },
+  '30d': { label: 'Last 30 days', days: 30, bucket: 'day' },
+  '90d': { label: 'Last 90 days', days: 90, bucket: 'week' },
+  '365d': { label: 'Last 12 months', days: 365, bucket: 'month' },
+};
+
+// Matches the ISO weekday numbers returned by alert_heatmap
+export const WEEKDAY_LABELS: Record<number, string> = {
+  1: 'Mon',
+  2: 'Tue',
+  3: 'Wed',
+  4: 'Thu',
+  5: 'Fri',
+  6: 'Sat',
+  7: 'Sun',
+};
+
+export interface TypeCount {
+  // yyyy-mm-dd, the first day of the bucket in the operator's time zone
+  bucket: string;
+  type: string;
+  alerts: number;
+}
+
+export interface HeatmapCell {
+  weekday: number;
+  hour: number;
+  alerts: number;
+}
+
+// Durations are in seconds and undefined when nothing was measured
+export interface ResponseTimes {
+  alerts: number;
+  acknowledged: number;
+  acknowledgeMedian?: number;
+  acknowledgeP90?: number;
+  resolved: number;
+  resolveMedian?: number;
+  resolveP90?: number;
+}
+
+export interface ClientFalseAlarms {
+  clientId: string;
+  alerts: number;
+  falseAlarms: number;
+  rate: number;
+}
+
+export interface OperatorWorkload {
+  userId: string;
+  alerts: number;
+  acknowledged: number;
+  dispatched: number;
+  closed: number;
+  assigned: number;
+  acknowledgeMedian?: number;
+}
+
+export interface Analytics {
+  byType: TypeCount[];
+  heatmap: HeatmapCell[];
+  responseTimes: ResponseTimes;
+  falseAlarms: ClientFalseAlarms[];
+  workload: OperatorWorkload[];
+}
+
+const seconds = (value: number | null) => value ?? undefined;
+
+const dateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Midnight at the start of the range, in the operator's time zone
+function rangeStart(range: AnalyticsRange) {
+  const from = new Date();
+  from.setHours(0, 0, 0, 0);
+  from.setDate(from.getDate() - ANALYTICS_RANGES[range].days + 1);
+  return from;
+}
+
+// Every bucket in the range, including empty ones, keyed like TypeCount.bucket.
+// Weeks start on Monday, as date_trunc does
+export function analyticsBuckets(range: AnalyticsRange) {
+  const { bucket } = ANALYTICS_RANGES[range];
+  const cursor = rangeStart(range);
+  const today = new Date();
+  const buckets: string[] = [];
+
+  if (bucket === 'week') cursor.setDate(cursor.getDate() - ((cursor.getDay() + 6) % 7));
+  if (bucket === 'month') cursor.setDate(1);
+
+  while (cursor <= today) {
+    buckets.push(dateKey(cursor));
+    if (bucket === 'day') cursor.setDate(cursor.getDate() + 1);
+    if (bucket === 'week') cursor.setDate(cursor.getDate() + 7);
+    if (bucket === 'month') cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  return buckets;
+}
+
+export async function fetchAnalytics(organizationId: string | null, range: AnalyticsRange): Promise<Analytics> {
+  const { bucket } = ANALYTICS_RANGES[range];
+  const from = rangeStart(range);
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const period = { p_organization_id: organizationId, p_from: from.toISOString(), p_to: null };
+
+  const [byType, heatmap, responseTimes, falseAlarms, workload] = await Promise.all([
+    supabase.rpc('alert_counts_by_type', { ...period, p_bucket: bucket, p_time_zone: timeZone }),
+    supabase.rpc('alert_heatmap', { ...period, p_time_zone: timeZone }),
+    supabase.rpc('alert_response_times', period).single(),
+    supabase.rpc('client_false_alarm_rates', period),
+    supabase.rpc('operator_workload', period),
+  ]);
+
+  const failed = [byType, heatmap, responseTimes, falseAlarms, workload].find(result => result.error);
+  if (failed?.error) throw failed.error;
+
+  const times = responseTimes.data as {
+    alerts: number;
+    acknowledged: number;
+    acknowledge_median_seconds: number | null;
+    acknowledge_p90_seconds: number | null;
+    resolved: number;
+    resolve_median_seconds: number | null;
+    resolve_p90_seconds: number | null;
+  };
+
+  return {
+    byType: byType.data as TypeCount[],
+    heatmap: heatmap.data as HeatmapCell[],
+    responseTimes: {
+      alerts: times.alerts,
+      acknowledged: times.acknowledged,
+      acknowledgeMedian: seconds(times.acknowledge_median_seconds),
+      acknowledgeP90: seconds(times.acknowledge_p90_seconds),
+      resolved: times.resolved,
+      resolveMedian: seconds(times.resolve_median_seconds),
+      resolveP90: seconds(times.resolve_p90_seconds),
+    },
+    falseAlarms: (falseAlarms.data as { client_id: string; alerts: number; false_alarms: number }[]).map(row => ({
+      clientId: row.client_id,
+      alerts: row.alerts,
+      falseAlarms: row.false_alarms,
+      rate: row.false_alarms / row.alerts,
+    })),
+    workload: (workload.data as {
+      user_id: string;
+      alerts: number;
+      acknowledged: number;
+      dispatched: number;
+      closed: number;
+      assigned: number;
+      acknowledge_median_seconds: number | null;
+    }[]).map(row => ({
+      userId: row.user_id,
+      alerts: row.alerts,
+      acknowledged: row.acknowledged,
+      dispatched: row.dispatched,
+      closed: row.closed,
+      assigned: row.assigned,
+      acknowledgeMedian: seconds(row.acknowledge_median_seconds),
+    })),
+  };
+}
+
+// 45s, 3m 20s, 1h 05m
+export function formatDuration(totalSeconds: number | undefined) {
+  if (totalSeconds === undefined) return '—';
+
+  const rounded = Math.round(totalSeconds);
+  if (rounded < 60) return `${rounded}s`;
+
+  const minutes = Math.floor(rounded / 60);
+  if (minutes < 60) return `${minutes}m ${String(rounded % 60).padStart(2, '0')}s`;
+
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
@@ -0,0 +1,85 @@
+import { supabase } from './supabase';
+
+export type AuditEntityType = 'organization' | 'client' | 'alert' | 'role' | 'invite';
+
+export interface AuditEntry {
+  id: number;
+  organizationId: string | null;
+  actorId: string | null;
+  actorEmail: string | null;
+  actorRole: string | null;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+export interface AuditFilters {
+  actor?: string;
+  entityType?: AuditEntityType | '';
+  entityId?: string;
+  from?: string; // yyyy-mm-dd, inclusive
+  to?: string; // yyyy-mm-dd, inclusive
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+
+// Loads one page of audit entries, newest first. RLS limits rows to the reader's organisation.
+export async function fetchAuditLog(filters: AuditFilters, page = 0) {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('id', { ascending: false })
+    .range(page * AUDIT_PAGE_SIZE, (page + 1) * AUDIT_PAGE_SIZE - 1);
+
+  if (filters.actor) {
+    query = query.ilike('actor_email', `%${filters.actor}%`);
+  }
+  if (filters.entityType) {
+    query = query.eq('entity_type', filters.entityType);
+  }
+  if (filters.entityId) {
+    query = query.eq('entity_id', filters.entityId);
+  }
+  if (filters.from) {
+    query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  }
+  if (filters.to) {
+    query = query.lt('created_at', new Date(new Date(`${filters.to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data.map((entry): AuditEntry => ({
+    id: entry.id,
+    organizationId: entry.organization_id,
+    actorId: entry.actor_id,
+    actorEmail: entry.actor_email,
+    actorRole: entry.actor_role,
+    action: entry.action,
+    entityType: entry.entity_type,
+    entityId: entry.entity_id,
+    before: entry.before,
+    after: entry.after,
+    createdAt: new Date(entry.created_at),
+  }));
+}
+
+// Returns the id of the first entry whose hash does not match, or null when the chain is intact
+export async function verifyAuditLog() {
+  const { data, error } = await supabase.rpc('verify_audit_log');
+  if (error) throw error;
+  return data as number | null;
+}
+
+// Keys whose values differ between the before and after snapshots
+export function changedFields(entry: AuditEntry) {
+  const keys = new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]);
+  return [...keys].filter(key =>
+    key !== 'updated_at' &&
+    JSON.stringify(entry.before?.[key]) !== JSON.stringify(entry.after?.[key])
+  );
+}
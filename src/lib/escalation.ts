@@ -0,0 +1,95 @@
+import { supabase } from './supabase';
+import { UserRole } from './roles';
+import type { Alert } from '../context/EmergencyContext';
+
+export type EscalationAction = 'notify_operators' | 'page_supervisor';
+
+export interface EscalationRule {
+  id: string;
+  organizationId: string;
+  alertType: string;
+  level: number;
+  delaySeconds: number;
+  action: EscalationAction;
+}
+
+// An escalation pushed to open consoles while the alert is still unacknowledged
+export interface EscalationNotice {
+  id: string;
+  alertId: string;
+  level: number;
+  action: EscalationAction;
+  createdAt: Date;
+}
+
+export const ESCALATION_ACTION_LABELS: Record<EscalationAction, string> = {
+  notify_operators: 'Re-notify all operators',
+  page_supervisor: 'Page a supervisor',
+};
+
+// Roles whose consoles surface each escalation
+export const ESCALATION_AUDIENCE: Record<EscalationAction, UserRole[]> = {
+  notify_operators: ['operator', 'super_admin'],
+  page_supervisor: ['supervisor', 'super_admin'],
+};
+
+// The rule that fires next for an alert, or null when it is picked up or has no more levels.
+// The database job is authoritative; this only drives the countdown.
+export function nextEscalation(alert: Alert, rules: EscalationRule[]) {
+  if (alert.status !== 'active') return null;
+
+  const rule = rules.find(r =>
+    r.organizationId === alert.organizationId &&
+    r.alertType === alert.type &&
+    r.level === alert.escalationLevel + 1
+  );
+
+  if (!rule) return null;
+
+  const since = alert.reopenedAt ?? alert.timestamp;
+  return { rule, dueAt: new Date(since.getTime() + rule.delaySeconds * 1000) };
+}
+
+export async function fetchEscalationRules(organizationId: string | null) {
+  let query = supabase
+    .from('escalation_rules')
+    .select('*')
+    .order('alert_type')
+    .order('level');
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data.map((rule): EscalationRule => ({
+    id: rule.id,
+    organizationId: rule.organization_id,
+    alertType: rule.alert_type,
+    level: rule.level,
+    delaySeconds: rule.delay_seconds,
+    action: rule.action,
+  }));
+}
+
+export async function saveEscalationRule(rule: Omit<EscalationRule, 'id'> & { id?: string }) {
+  const { error } = await supabase
+    .from('escalation_rules')
+    .upsert({
+      id: rule.id,
+      organization_id: rule.organizationId,
+      alert_type: rule.alertType,
+      level: rule.level,
+      delay_seconds: rule.delaySeconds,
+      action: rule.action,
+    });
+
+  if (error) throw error;
+}
+
+export async function deleteEscalationRule(ruleId: string) {
+  const { error } = await supabase.from('escalation_rules').delete().eq('id', ruleId);
+  if (error) throw error;
+}
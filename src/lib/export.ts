@@ -0,0 +1,164 @@
+import type { Alert, Client } from '../context/EmergencyContext';
+import { STATUS_LABELS } from './alertLifecycle';
+import { RESOLUTION_LABELS } from './resolution';
+import { MEDICAL_FLAG_LABELS, MedicalFlag } from './priority';
+
+export type ExportFormat = 'csv' | 'json' | 'geojson';
+
+// Timestamps are written either as UTC ISO strings or in the exporter's own
+// time zone with its offset, so both survive a round trip through a spreadsheet
+export type ExportTimeZone = 'local' | 'utc';
+
+type ExportValue = string | number | boolean | Date | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => ExportValue;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV (spreadsheets)', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  geojson: { label: 'GeoJSON (GIS tools)', extension: 'geojson', mimeType: 'application/geo+json' },
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// 2025-10-07T14:03:00+02:00
+function toLocalIsoString(date: Date) {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  const abs = Math.abs(offset);
+
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+    `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+function formatValue(value: ExportValue, timeZone: ExportTimeZone) {
+  if (value instanceof Date) {
+    return timeZone === 'utc' ? value.toISOString() : toLocalIsoString(value);
+  }
+  return value;
+}
+
+// Text a spreadsheet could run as a formula (OWASP CSV injection). Spreadsheets
+// evaluate phone numbers like +1-555-123-4567 too, so any leading + or - counts
+const isFormulaLike = (text: string) => /^[=+\-@\t\r]/.test(text);
+
+// Quote fields that need it, and stop spreadsheets reading cells as formulas
+function csvCell(value: ExportValue) {
+  if (value === undefined) return '';
+
+  let text = String(value);
+  if (typeof value === 'string' && isFormulaLike(text)) text = `'${text}`;
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toRecord<T>(row: T, columns: ExportColumn<T>[], timeZone: ExportTimeZone) {
+  return Object.fromEntries(columns.map(column => [column.key, formatValue(column.value(row), timeZone) ?? null]));
+}
+
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[], timeZone: ExportTimeZone) {
+  const lines = [
+    columns.map(column => csvCell(column.label)).join(','),
+    ...rows.map(row => columns.map(column => csvCell(formatValue(column.value(row), timeZone))).join(',')),
+  ];
+
+  // Leading BOM so Excel opens UTF-8 names correctly
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+export function toJson<T>(rows: T[], columns: ExportColumn<T>[], timeZone: ExportTimeZone) {
+  return JSON.stringify(rows.map(row => toRecord(row, columns, timeZone)), null, 2);
+}
+
+// Rows without a position are left out; GeoJSON orders coordinates longitude first
+export function toGeoJson<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  timeZone: ExportTimeZone,
+  positionOf: (row: T) => { lat: number; lng: number } | undefined
+) {
+  const features = rows.flatMap(row => {
+    const position = positionOf(row);
+    if (!position) return [];
+
+    return [{
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [position.lng, position.lat] },
+      properties: toRecord(row, columns, timeZone),
+    }];
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+export function buildExport<T>(
+  format: ExportFormat,
+  rows: T[],
+  columns: ExportColumn<T>[],
+  timeZone: ExportTimeZone,
+  positionOf?: (row: T) => { lat: number; lng: number } | undefined
+) {
+  if (format === 'csv') return toCsv(rows, columns, timeZone);
+  if (format === 'geojson' && positionOf) return toGeoJson(rows, columns, timeZone, positionOf);
+  return toJson(rows, columns, timeZone);
+}
+
+export function downloadExport(filename: string, format: ExportFormat, content: string) {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = `${filename}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function clientExportColumns(): ExportColumn<Client>[] {
+  return [
+    { key: 'id', label: 'Client ID', value: c => c.id },
+    { key: 'name', label: 'Name', value: c => c.name },
+    { key: 'email', label: 'Email', value: c => c.email },
+    { key: 'phone', label: 'Phone', value: c => c.phone },
+    { key: 'address', label: 'Address', value: c => c.address },
+    { key: 'emergency_contact', label: 'Emergency contact', value: c => c.emergencyContact },
+    { key: 'status', label: 'Status', value: c => c.status },
+    { key: 'medical_flags', label: 'Medical flags', value: c => c.medicalFlags.map(flag => MEDICAL_FLAG_LABELS[flag as MedicalFlag] ?? flag).join('; ') },
+    { key: 'latitude', label: 'Latitude', value: c => c.location?.lat },
+    { key: 'longitude', label: 'Longitude', value: c => c.location?.lng },
+    { key: 'created_at', label: 'Registered', value: c => new Date(c.createdAt) },
+  ];
+}
+
+// Names come from the caller, which has the clients, staff and alert types loaded
+export function alertExportColumns({ clientName, staffName, typeLabel }: {
+  clientName: (alert: Alert) => string | undefined;
+  staffName: (userId: string | undefined) => string | undefined;
+  typeLabel: (alert: Alert) => string;
+}): ExportColumn<Alert>[] {
+  return [
+    { key: 'id', label: 'Alert ID', value: a => a.id },
+    { key: 'raised_at', label: 'Raised', value: a => a.timestamp },
+    { key: 'type', label: 'Type', value: typeLabel },
+    { key: 'status', label: 'Status', value: a => STATUS_LABELS[a.status] },
+    { key: 'duress', label: 'Duress', value: a => a.duress },
+    { key: 'client', label: 'Client', value: clientName },
+    { key: 'message', label: 'Message', value: a => a.message },
+    { key: 'press_count', label: 'Presses', value: a => a.pressCount },
+    { key: 'latitude', label: 'Latitude', value: a => a.location.lat },
+    { key: 'longitude', label: 'Longitude', value: a => a.location.lng },
+    { key: 'acknowledged_at', label: 'Acknowledged', value: a => a.acknowledgedAt },
+    { key: 'acknowledged_by', label: 'Acknowledged by', value: a => staffName(a.acknowledgedBy) },
+    { key: 'dispatched_at', label: 'Dispatched', value: a => a.dispatchedAt },
+    { key: 'on_scene_at', label: 'On scene', value: a => a.onSceneAt },
+    { key: 'closed_at', label: 'Closed', value: a => a.resolvedAt },
+    { key: 'closed_by', label: 'Closed by', value: a => staffName(a.resolvedBy) },
+    { key: 'resolution', label: 'Resolution', value: a => (a.resolutionCode ? RESOLUTION_LABELS[a.resolutionCode] : undefined) },
+    { key: 'resolution_summary', label: 'Resolution summary', value: a => a.resolutionSummary },
+  ];
+}
@@ -0,0 +1,18 @@
+import { supabase } from './supabase';
+
+export interface ClientInvite {
+  clientName: string;
+  email: string;
+  url: string;
+}
+
+// Issues a one-time invite for a client and returns the link they use to set a password
+export async function createInviteUrl(clientId: string) {
+  const { data: token, error } = await supabase.rpc('create_client_invite', {
+    p_client_id: clientId,
+  });
+
+  if (error) throw error;
+
+  return `${window.location.origin}/accept-invite/${token}`;
+}
@@ -0,0 +1,39 @@
+import { supabase, getFunctionErrorMessage } from './supabase';
+
+// Verifies a code from the user's authenticator app, raising the session to aal2
+export async function verifyTotpCode(code: string) {
+  const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+  if (factorsError) throw factorsError;
+
+  const factor = factors.totp[0];
+  if (!factor) {
+    throw new Error('No authenticator app is enrolled for this account');
+  }
+
+  const { error } = await supabase.auth.mfa.challengeAndVerify({
+    factorId: factor.id,
+    code: code.trim(),
+  });
+
+  if (error) throw error;
+}
+
+// Spends a recovery code to remove the user's authenticator so they can enrol a new one
+export async function redeemRecoveryCode(code: string) {
+  const { error } = await supabase.functions.invoke('redeem-recovery-code', {
+    body: { code },
+  });
+
+  if (error) {
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to redeem recovery code'));
+  }
+
+  // Pick up the removed factor so the assurance level is recalculated
+  await supabase.auth.refreshSession();
+}
+
+export async function generateRecoveryCodes() {
+  const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+  if (error) throw error;
+  return data as string[];
+}
@@ -0,0 +1,85 @@
+import { UserRole } from './roles';
+
+export type Permission =
+  | 'client.view'
+  | 'client.create'
+  | 'client.update'
+  | 'client.delete'
+  | 'alert.view'
+  | 'alert.acknowledge'
+  | 'alert.dispatch'
+  | 'alert.resolve'
+  | 'alert.assign'
+  | 'alert.note'
+  | 'alert.message'
+  | 'role.manage'
+  | 'audit.view'
+  | 'analytics.view'
+  | 'escalation.manage'
+  | 'priority.manage'
+  | 'alert_type.manage'
+  | 'organization.manage';
+
+// Mirrors the role_permissions table seeded in the database, which is what RLS
+// enforces. Keep both in sync when adding a permission.
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  client: [],
+  operator: [
+    'client.view',
+    'client.create',
+    'client.update',
+    'alert.view',
+    'alert.acknowledge',
+    'alert.dispatch',
+    'alert.resolve',
+    'alert.note',
+    'alert.message',
+  ],
+  supervisor: [
+    'client.view',
+    'client.create',
+    'client.update',
+    'client.delete',
+    'alert.view',
+    'alert.assign',
+    'alert.note',
+    'alert.message',
+    'role.manage',
+    'audit.view',
+    'analytics.view',
+    'escalation.manage',
+    'priority.manage',
+    'alert_type.manage',
+  ],
+  auditor: [
+    'client.view',
+    'alert.view',
+    'audit.view',
+    'analytics.view',
+  ],
+  // Platform-wide role, not tied to an organisation
+  super_admin: [
+    'client.view',
+    'client.create',
+    'client.update',
+    'client.delete',
+    'alert.view',
+    'alert.acknowledge',
+    'alert.dispatch',
+    'alert.resolve',
+    'alert.assign',
+    'alert.note',
+    'alert.message',
+    'role.manage',
+    'audit.view',
+    'analytics.view',
+    'escalation.manage',
+    'priority.manage',
+    'alert_type.manage',
+    'organization.manage',
+  ],
+};
+
+export function can(role: UserRole | null | undefined, permission: Permission) {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
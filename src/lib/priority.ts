@@ -0,0 +1,156 @@
+import { supabase } from './supabase';
+import type { Alert, Client } from '../context/EmergencyContext';
+import type { AlertType } from './alertTypes';
+
+// The base score of each alert type is its default priority in alert_types
+export interface PriorityWeights {
+  waitingPerMinute: number;
+  maxWaitingMinutes: number;
+  medicalFlag: number;
+  repeatAlert: number;
+  duress: number;
+  failedCancel: number;
+  // Not a weight: presses from the same client this soon after the last one are
+  // folded into the open alert by the database (0 turns folding off)
+  coalesceWindowSeconds: number;
+}
+
+// Used until an organisation saves its own; matches the column defaults of priority_settings
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = {
+  waitingPerMinute: 2,
+  maxWaitingMinutes: 30,
+  medicalFlag: 15,
+  repeatAlert: 10,
+  duress: 200,
+  failedCancel: 25,
+  coalesceWindowSeconds: 120,
+};
+
+export const PRIORITY_WEIGHT_LABELS: Record<keyof PriorityWeights, string> = {
+  waitingPerMinute: 'Per minute waiting',
+  maxWaitingMinutes: 'Waiting cap (minutes)',
+  medicalFlag: 'Per medical flag',
+  repeatAlert: 'Per repeat alert (24h)',
+  duress: 'Duress',
+  failedCancel: 'Per failed cancel attempt',
+  coalesceWindowSeconds: 'Fold repeat presses within (seconds)',
+};
+
+export const MEDICAL_FLAGS = ['cardiac', 'diabetic', 'epilepsy', 'respiratory', 'mobility', 'cognitive'] as const;
+
+export type MedicalFlag = typeof MEDICAL_FLAGS[number];
+
+export const MEDICAL_FLAG_LABELS: Record<MedicalFlag, string> = {
+  cardiac: 'Cardiac',
+  diabetic: 'Diabetic',
+  epilepsy: 'Epilepsy',
+  respiratory: 'Respiratory',
+  mobility: 'Limited mobility',
+  cognitive: 'Cognitive impairment',
+};
+
+// Other alerts from the same client within this window count as repeats
+export const REPEAT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type PriorityLevel = 'critical' | 'high' | 'medium' | 'low';
+
+export const PRIORITY_STYLES: Record<PriorityLevel, string> = {
+  critical: 'bg-red-700 text-white',
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-orange-100 text-orange-800',
+  low: 'bg-gray-100 text-gray-700',
+};
+
+export interface PriorityScore {
+  score: number;
+  level: PriorityLevel;
+  // Human-readable contributions, largest first, for the badge tooltip
+  factors: string[];
+}
+
+export function priorityLevel(score: number): PriorityLevel {
+  if (score >= 200) return 'critical';
+  if (score >= 100) return 'high';
+  if (score >= 50) return 'medium';
+  return 'low';
+}
+
+export function scoreAlert(
+  alert: Alert,
+  { alertType, client, alerts, weights, now = Date.now() }: {
+    alertType?: AlertType;
+    client?: Client;
+    alerts: Alert[];
+    weights: PriorityWeights;
+    now?: number;
+  }
+): PriorityScore {
+  const waitingMinutes = Math.min(
+    Math.max(0, Math.floor((now - alert.timestamp.getTime()) / 60000)),
+    weights.maxWaitingMinutes
+  );
+  const medicalFlags = client?.medicalFlags ?? [];
+  // Presses folded into this alert count as repeats too
+  const repeats = alert.pressCount - 1 + alerts.filter(other =>
+    other.id !== alert.id &&
+    other.clientId === alert.clientId &&
+    Math.abs(alert.timestamp.getTime() - other.timestamp.getTime()) <= REPEAT_WINDOW_MS
+  ).length;
+
+  const parts: [string, number][] = [
+    [`${alertType?.label ?? alert.type} alert`, alertType?.defaultPriority ?? 0],
+    [`waiting ${waitingMinutes} min`, waitingMinutes * weights.waitingPerMinute],
+    [medicalFlags.map(flag => MEDICAL_FLAG_LABELS[flag as MedicalFlag] ?? flag).join(', '), medicalFlags.length * weights.medicalFlag],
+    [`${repeats} repeat alert${repeats === 1 ? '' : 's'}`, repeats * weights.repeatAlert],
+    ['duress', alert.duress ? weights.duress : 0],
+    [`${alert.priorityBoost} failed cancel${alert.priorityBoost === 1 ? '' : 's'}`, alert.priorityBoost * weights.failedCancel],
+  ];
+
+  const contributing = parts.filter(([, points]) => points > 0).sort((a, b) => b[1] - a[1]);
+  const score = contributing.reduce((total, [, points]) => total + points, 0);
+
+  return {
+    score,
+    level: priorityLevel(score),
+    factors: contributing.map(([label, points]) => `${label} +${points}`),
+  };
+}
+
+export async function fetchPriorityWeights(organizationId: string | null) {
+  let query = supabase.from('priority_settings').select('*');
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return Object.fromEntries(data.map((row): [string, PriorityWeights] => [row.organization_id, {
+    waitingPerMinute: row.waiting_weight,
+    maxWaitingMinutes: row.max_waiting_minutes,
+    medicalFlag: row.medical_weight,
+    repeatAlert: row.repeat_weight,
+    duress: row.duress_weight,
+    failedCancel: row.failed_cancel_weight,
+    coalesceWindowSeconds: row.coalesce_window_seconds,
+  }]));
+}
+
+export async function savePriorityWeights(organizationId: string, weights: PriorityWeights) {
+  const { error } = await supabase
+    .from('priority_settings')
+    .upsert({
+      organization_id: organizationId,
+      waiting_weight: weights.waitingPerMinute,
+      max_waiting_minutes: weights.maxWaitingMinutes,
+      medical_weight: weights.medicalFlag,
+      repeat_weight: weights.repeatAlert,
+      duress_weight: weights.duress,
+      failed_cancel_weight: weights.failedCancel,
+      coalesce_window_seconds: weights.coalesceWindowSeconds,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+}
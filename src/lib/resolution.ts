@@ -0,0 +1,36 @@
+import { AlertStatus } from './alertLifecycle';
+
+export type ResolutionCode =
+  | 'genuine_emergency'
+  | 'police_attended'
+  | 'ambulance_attended'
+  | 'guard_attended'
+  | 'resolved_by_phone'
+  | 'no_response'
+  | 'false_alarm'
+  | 'accidental_press'
+  | 'test'
+  | 'duplicate';
+
+// Mirrors the resolution_code check constraint on alerts. `statuses` are the
+// closing statuses each code is offered for.
+export const RESOLUTION_CODES: { code: ResolutionCode; label: string; statuses: AlertStatus[] }[] = [
+  { code: 'genuine_emergency', label: 'Genuine emergency', statuses: ['resolved'] },
+  { code: 'police_attended', label: 'Police attended', statuses: ['resolved'] },
+  { code: 'ambulance_attended', label: 'Ambulance attended', statuses: ['resolved'] },
+  { code: 'guard_attended', label: 'Guard attended', statuses: ['resolved'] },
+  { code: 'resolved_by_phone', label: 'Resolved by phone', statuses: ['resolved'] },
+  { code: 'no_response', label: 'No response from client', statuses: ['resolved', 'cancelled'] },
+  { code: 'false_alarm', label: 'False alarm', statuses: ['false_alarm'] },
+  { code: 'accidental_press', label: 'Accidental press', statuses: ['false_alarm', 'cancelled'] },
+  { code: 'test', label: 'Test alert', statuses: ['false_alarm', 'cancelled'] },
+  { code: 'duplicate', label: 'Duplicate of another alert', statuses: ['cancelled'] },
+];
+
+export const RESOLUTION_LABELS = Object.fromEntries(
+  RESOLUTION_CODES.map(({ code, label }) => [code, label])
+) as Record<ResolutionCode, string>;
+
+export function resolutionCodesFor(status: AlertStatus) {
+  return RESOLUTION_CODES.filter(code => code.statuses.includes(status));
+}
@@ -0,0 +1,8 @@
+export type UserRole = 'client' | 'operator' | 'supervisor' | 'auditor' | 'super_admin';
+
+// Roles that belong in the control room rather than the client portal
+export const STAFF_ROLES: UserRole[] = ['operator', 'supervisor', 'auditor', 'super_admin'];
+
+export function isStaffRole(role: UserRole | null | undefined) {
+  return !!role && STAFF_ROLES.includes(role);
+}
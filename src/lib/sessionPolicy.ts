@@ -0,0 +1,61 @@
+import { supabase } from './supabase';
+
+const readPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Lock the admin console after this much inactivity
+export const IDLE_TIMEOUT_MS =
+  readPositiveNumber(import.meta.env.VITE_ADMIN_IDLE_TIMEOUT_MINUTES, 5) * 60 * 1000;
+
+// Sign staff out once a shift has run this long, however active they are
+export const MAX_SHIFT_MS =
+  readPositiveNumber(import.meta.env.VITE_ADMIN_MAX_SHIFT_HOURS, 12) * 60 * 60 * 1000;
+
+export const MAX_UNLOCK_ATTEMPTS = 5;
+
+const STORAGE_KEY = 'securealert.consoleSession';
+
+export interface ConsoleSession {
+  userId: string;
+  startedAt: number;
+  locked: boolean;
+  // Wrong unlock passwords since the console was last unlocked
+  failedAttempts: number;
+}
+
+// Kept in localStorage so a reload neither unlocks the console, restarts the
+// shift clock nor resets the unlock attempts
+export function readConsoleSession(userId: string): ConsoleSession {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored?.userId === userId) return { failedAttempts: 0, ...stored };
+  } catch {
+    // Fall through to a fresh session
+  }
+
+  const session = { userId, startedAt: Date.now(), locked: false, failedAttempts: 0 };
+  writeConsoleSession(session);
+  return session;
+}
+
+export function writeConsoleSession(session: ConsoleSession) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearConsoleSession() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export type SessionEvent = 'lock' | 'unlock' | 'unlock_failed' | 'expired';
+
+export async function recordSessionEvent(userId: string, event: SessionEvent, reason?: string) {
+  const { error } = await supabase
+    .from('session_events')
+    .insert({ user_id: userId, event, reason });
+
+  if (error) {
+    console.error('Error recording session event:', error);
+  }
+}
@@ -1,4 +1,8 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError } from '@supabase/supabase-js';
+import { UserRole } from './roles';
+import { AlertStatus } from './alertLifecycle';
+import { ResolutionCode } from './resolution';
+import { AlarmSound } from './alarm';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -9,17 +13,64 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// Throwaway client for re-checking a password without touching the main session
+const verificationClient = createClient(supabaseUrl, supabaseAnonKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false,
+    detectSessionInUrl: false,
+    storageKey: 'securealert-verify',
+  },
+});
+
+export async function verifyPassword(email: string, password: string) {
+  const { error } = await verificationClient.auth.signInWithPassword({ email, password });
+  if (error) return false;
+
+  await verificationClient.auth.signOut({ scope: 'local' });
+  return true;
+}
+
+// Edge functions report failures as { error } JSON bodies; surface that message
+export async function getFunctionErrorMessage(error: unknown, fallback: string) {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    return body?.error || fallback;
+  }
+  return fallback;
+}
+
 export type Database = {
   public: {
     Tables: {
+      organizations: {
+        Row: {
+          id: string;
+          name: string;
+          slug: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          slug: string;
+          created_at?: string;
+        };
+        Update: {
+          name?: string;
+          slug?: string;
+        };
+      };
       clients: {
         Row: {
           id: string;
+          organization_id: string;
           name: string;
           phone: string;
           email: string;
           address: string;
           emergency_contact: string;
+          medical_flags: string[];
           status: 'active' | 'inactive';
           location_lat: number | null;
           location_lng: number | null;
@@ -28,11 +79,13 @@ export type Database = {
         };
         Insert: {
           id?: string;
+          organization_id?: string;
           name: string;
           phone: string;
           email: string;
           address: string;
           emergency_contact: string;
+          medical_flags?: string[];
           status?: 'active' | 'inactive';
           location_lat?: number | null;
           location_lng?: number | null;
@@ -41,11 +94,13 @@ export type Database = {
         };
         Update: {
           id?: string;
+          organization_id?: string;
           name?: string;
           phone?: string;
           email?: string;
           address?: string;
           emergency_contact?: string;
+          medical_flags?: string[];
           status?: 'active' | 'inactive';
           location_lat?: number | null;
           location_lng?: number | null;
@@ -55,34 +110,395 @@ export type Database = {
       alerts: {
         Row: {
           id: string;
+          organization_id: string;
           client_id: string;
-          type: 'panic' | 'accident' | 'assistance';
-          status: 'active' | 'acknowledged' | 'resolved';
+          type: string;
+          status: AlertStatus;
           message: string | null;
           location_lat: number;
           location_lng: number;
+          duress: boolean;
+          duress_at: string | null;
+          escalation_level: number;
+          assigned_to: string | null;
+          assigned_at: string | null;
+          cancelled_by_client: boolean;
+          priority_boost: number;
+          press_count: number;
+          last_pressed_at: string;
+          acknowledged_at: string | null;
+          acknowledged_by: string | null;
+          dispatched_at: string | null;
+          dispatched_by: string | null;
+          en_route_at: string | null;
+          on_scene_at: string | null;
+          resolved_at: string | null;
+          resolved_by: string | null;
+          resolution_code: ResolutionCode | null;
+          resolution_summary: string | null;
+          reopened_at: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
+          organization_id?: string;
           client_id: string;
-          type: 'panic' | 'accident' | 'assistance';
-          status?: 'active' | 'acknowledged' | 'resolved';
+          type: string;
+          status?: AlertStatus;
           message?: string | null;
           location_lat: number;
           location_lng: number;
+          duress?: boolean;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           client_id?: string;
-          type?: 'panic' | 'accident' | 'assistance';
-          status?: 'active' | 'acknowledged' | 'resolved';
+          type?: string;
+          status?: AlertStatus;
           message?: string | null;
           location_lat?: number;
           location_lng?: number;
+          duress?: boolean;
+          updated_at?: string;
+        };
+      };
+      session_events: {
+        Row: {
+          id: string;
+          user_id: string;
+          event: 'lock' | 'unlock' | 'unlock_failed' | 'expired';
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          event: 'lock' | 'unlock' | 'unlock_failed' | 'expired';
+          reason?: string | null;
+          created_at?: string;
+        };
+        Update: never;
+      };
+      client_invites: {
+        Row: {
+          id: string;
+          client_id: string;
+          email: string;
+          token_hash: string;
+          expires_at: string;
+          accepted_at: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          client_id: string;
+          email: string;
+          token_hash: string;
+          expires_at: string;
+          accepted_at?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          accepted_at?: string | null;
+        };
+      };
+      user_roles: {
+        Row: {
+          user_id: string;
+          role: UserRole;
+          organization_id: string | null;
+          display_name: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          role?: UserRole;
+          organization_id?: string | null;
+          display_name?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          role?: UserRole;
+          organization_id?: string | null;
+          display_name?: string | null;
+          updated_at?: string;
+        };
+      };
+      audit_log: {
+        Row: {
+          id: number;
+          organization_id: string | null;
+          actor_id: string | null;
+          actor_email: string | null;
+          actor_role: string | null;
+          action: string;
+          entity_type: 'organization' | 'client' | 'alert' | 'role' | 'invite';
+          entity_id: string;
+          before: Record<string, unknown> | null;
+          after: Record<string, unknown> | null;
+          created_at: string;
+          prev_hash: string | null;
+          hash: string;
+        };
+        // Written only by database triggers
+        Insert: never;
+        Update: never;
+      };
+      alert_events: {
+        Row: {
+          id: string;
+          alert_id: string;
+          organization_id: string;
+          event_type: 'created' | 'status_changed' | 'escalated' | 'assigned' | 'cancel_rejected' | 'repeat_press';
+          from_status: AlertStatus | null;
+          to_status: AlertStatus | null;
+          actor_id: string | null;
+          note: string | null;
+          details: Record<string, unknown> | null;
+          created_at: string;
+        };
+        // Written only by database triggers
+        Insert: never;
+        Update: never;
+      };
+      alert_notes: {
+        Row: {
+          id: string;
+          alert_id: string;
+          organization_id: string;
+          author_id: string;
+          body: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          alert_id: string;
+          organization_id?: string;
+          author_id?: string;
+          body: string;
+          created_at?: string;
+        };
+        // Notes are append-only
+        Update: never;
+      };
+      alert_messages: {
+        Row: {
+          id: string;
+          alert_id: string;
+          organization_id: string;
+          sender_id: string;
+          sender_role: 'client' | 'staff';
+          body: string;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          alert_id: string;
+          // Set by a trigger from the alert and the sender's role
+          organization_id?: string;
+          sender_role?: 'client' | 'staff';
+          sender_id?: string;
+          body: string;
+          created_at?: string;
+        };
+        // Read receipts go through mark_alert_messages_read
+        Update: never;
+      };
+      alert_media: {
+        Row: {
+          id: string;
+          alert_id: string;
+          organization_id: string;
+          uploaded_by: string;
+          kind: 'photo' | 'audio';
+          storage_path: string;
+          mime_type: string;
+          size_bytes: number;
+          duration_seconds: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          alert_id: string;
+          // Set from the alert by a trigger
+          organization_id?: string;
+          uploaded_by?: string;
+          kind: 'photo' | 'audio';
+          storage_path: string;
+          mime_type: string;
+          size_bytes: number;
+          duration_seconds?: number | null;
+          created_at?: string;
+        };
+        // Media is evidence and never changes
+        Update: never;
+      };
+      escalation_rules: {
+        Row: {
+          id: string;
+          organization_id: string;
+          alert_type: string;
+          level: number;
+          delay_seconds: number;
+          action: 'notify_operators' | 'page_supervisor';
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          alert_type: string;
+          level: number;
+          delay_seconds: number;
+          action: 'notify_operators' | 'page_supervisor';
+          created_at?: string;
+        };
+        Update: {
+          level?: number;
+          delay_seconds?: number;
+          action?: 'notify_operators' | 'page_supervisor';
+        };
+      };
+      alert_types: {
+        Row: {
+          id: string;
+          organization_id: string;
+          key: string;
+          label: string;
+          description: string;
+          icon: string;
+          color: string;
+          default_priority: number;
+          alarm_sound: AlarmSound;
+          sop: string;
+          sort_order: number;
+          active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          key: string;
+          label: string;
+          description?: string;
+          icon?: string;
+          color?: string;
+          default_priority?: number;
+          alarm_sound?: AlarmSound;
+          sop?: string;
+          sort_order?: number;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        // The key is fixed once created
+        Update: {
+          label?: string;
+          description?: string;
+          icon?: string;
+          color?: string;
+          default_priority?: number;
+          alarm_sound?: AlarmSound;
+          sop?: string;
+          sort_order?: number;
+          active?: boolean;
+          updated_at?: string;
+        };
+      };
+      priority_settings: {
+        Row: {
+          organization_id: string;
+          waiting_weight: number;
+          max_waiting_minutes: number;
+          medical_weight: number;
+          repeat_weight: number;
+          duress_weight: number;
+          failed_cancel_weight: number;
+          coalesce_window_seconds: number;
+          updated_at: string;
+        };
+        Insert: {
+          organization_id: string;
+          waiting_weight?: number;
+          max_waiting_minutes?: number;
+          medical_weight?: number;
+          repeat_weight?: number;
+          duress_weight?: number;
+          failed_cancel_weight?: number;
+          coalesce_window_seconds?: number;
+          updated_at?: string;
+        };
+        Update: {
+          waiting_weight?: number;
+          max_waiting_minutes?: number;
+          medical_weight?: number;
+          repeat_weight?: number;
+          duress_weight?: number;
+          failed_cancel_weight?: number;
+          coalesce_window_seconds?: number;
+          updated_at?: string;
+        };
+      };
+      operator_alarm_settings: {
+        Row: {
+          user_id: string;
+          muted: boolean;
+          volume: number;
+          muted_types: string[];
+          desktop_notifications: boolean;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          muted?: boolean;
+          volume?: number;
+          muted_types?: string[];
+          desktop_notifications?: boolean;
+          updated_at?: string;
+        };
+        Update: {
+          muted?: boolean;
+          volume?: number;
+          muted_types?: string[];
+          desktop_notifications?: boolean;
+          updated_at?: string;
+        };
+      };
+      alert_status_transitions: {
+        Row: {
+          from_status: AlertStatus;
+          to_status: AlertStatus;
+        };
+        Insert: {
+          from_status: AlertStatus;
+          to_status: AlertStatus;
+        };
+        Update: never;
+      };
+      client_pins: {
+        Row: {
+          client_id: string;
+          pin_hash: string;
+          duress_pin_hash: string;
+          updated_at: string;
+        };
+        Insert: {
+          client_id: string;
+          pin_hash: string;
+          duress_pin_hash: string;
+          updated_at?: string;
+        };
+        Update: {
+          pin_hash?: string;
+          duress_pin_hash?: string;
           updated_at?: string;
         };
       };
@@ -1,17 +1,44 @@
 import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useEmergency } from '../context/EmergencyContext';
+import { useAuth } from '../hooks/useAuth';
+import { useLockConsole } from '../hooks/useConsoleLock';
+import { useAlertAlarm } from '../hooks/useAlertAlarm';
 import ClientList from '../components/ClientList';
 import AlertDashboard from '../components/AlertDashboard';
 import AdminMap from '../components/AdminMap';
 import Navigation from '../components/Navigation';
-import { Users, AlertTriangle, Map, Activity } from 'lucide-react';
+import OrganizationSwitcher from '../components/OrganizationSwitcher';
+import AuditLog from '../components/AuditLog';
+import EscalationSettings from '../components/EscalationSettings';
+import PrioritySettings from '../components/PrioritySettings';
+import AlertTypeSettings from '../components/AlertTypeSettings';
+import AlarmSettingsModal from '../components/AlarmSettingsModal';
+import IncidentHistory from '../components/IncidentHistory';
+import AnalyticsDashboard from '../components/AnalyticsDashboard';
+import { isOpenStatus } from '../lib/alertLifecycle';
+import { Users, AlertTriangle, Map, Activity, Lock, ScrollText, Timer, Gauge, Tags, Bell, BellOff, BellRing, History, BarChart3 } from 'lucide-react';
 
 export default function AdminPortal() {
-  const { clients, alerts } = useEmergency();
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'clients' | 'map'>('dashboard');
+  const { clients, alerts, organizations, organizationId } = useEmergency();
+  const { can } = useAuth();
+  const lockConsole = useLockConsole();
+  const alarm = useAlertAlarm();
+  const [showAlarmSettings, setShowAlarmSettings] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The history keeps its filters in the URL, so a shared link opens straight into it
+  const [activeTab, setActiveTabState] = useState<'dashboard' | 'clients' | 'map' | 'history' | 'analytics' | 'audit' | 'escalation' | 'priority' | 'alert_types'>(
+    () => (searchParams.get('view') === 'history' ? 'history' : 'dashboard')
+  );
+
+  const setActiveTab = (tab: typeof activeTab) => {
+    setActiveTabState(tab);
+    setSearchParams(tab === 'history' ? { view: 'history' } : {});
+  };
   
   const activeAlerts = alerts.filter(alert => alert.status === 'active');
   const activeClients = clients.filter(client => client.status === 'active');
+  const organization = organizations.find(org => org.id === organizationId);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -27,10 +54,13 @@ export default function AdminPortal() {
               </div>
               <div>
                 <h1 className="text-xl font-semibold text-gray-900">Security Control Center</h1>
-                <p className="text-sm text-gray-500">Emergency Response Administration</p>
+                <p className="text-sm text-gray-500">
+                  {organization ? organization.name : 'Emergency Response Administration'}
+                </p>
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              <OrganizationSwitcher />
               <div className="text-right">
                 <p className="text-sm text-gray-500">Active Alerts</p>
                 <p className="text-2xl font-bold text-red-600">{activeAlerts.length}</p>
@@ -39,6 +69,20 @@ export default function AdminPortal() {
                 <p className="text-sm text-gray-500">Active Clients</p>
                 <p className="text-2xl font-bold text-green-600">{activeClients.length}</p>
               </div>
+              <button
+                onClick={() => setShowAlarmSettings(true)}
+                className={`p-2 rounded-lg hover:bg-gray-100 transition-colors ${alarm.ringing ? 'text-red-600 animate-pulse' : 'text-gray-400 hover:text-gray-600'}`}
+                title="Alarm settings"
+              >
+                {alarm.settings.muted ? <BellOff className="w-5 h-5" /> : alarm.ringing ? <BellRing className="w-5 h-5" /> : <Bell className="w-5 h-5" />}
+              </button>
+              <button
+                onClick={lockConsole}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+                title="Lock console"
+              >
+                <Lock className="w-5 h-5" />
+              </button>
             </div>
           </div>
         </div>
@@ -75,9 +119,9 @@ export default function AdminPortal() {
                 <Activity className="w-5 h-5 text-yellow-600" />
               </div>
               <div className="ml-3">
-                <p className="text-sm font-medium text-gray-500">Acknowledged</p>
+                <p className="text-sm font-medium text-gray-500">In Progress</p>
                 <p className="text-lg font-semibold text-gray-900">
-                  {alerts.filter(alert => alert.status === 'acknowledged').length}
+                  {alerts.filter(alert => alert.status !== 'active' && isOpenStatus(alert.status)).length}
                 </p>
               </div>
             </div>
@@ -133,6 +177,82 @@ export default function AdminPortal() {
               <Map className="w-4 h-4 inline mr-2" />
               Live Map
             </button>
+            <button
+              onClick={() => setActiveTab('history')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'history'
+                  ? 'border-red-500 text-red-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <History className="w-4 h-4 inline mr-2" />
+              Incident History
+            </button>
+            {can('analytics.view') && (
+              <button
+                onClick={() => setActiveTab('analytics')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'analytics'
+                    ? 'border-red-500 text-red-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <BarChart3 className="w-4 h-4 inline mr-2" />
+                Analytics
+              </button>
+            )}
+            {can('audit.view') && (
+              <button
+                onClick={() => setActiveTab('audit')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'audit'
+                    ? 'border-red-500 text-red-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <ScrollText className="w-4 h-4 inline mr-2" />
+                Audit
+              </button>
+            )}
+            {can('escalation.manage') && (
+              <button
+                onClick={() => setActiveTab('escalation')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'escalation'
+                    ? 'border-red-500 text-red-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <Timer className="w-4 h-4 inline mr-2" />
+                Escalation
+              </button>
+            )}
+            {can('priority.manage') && (
+              <button
+                onClick={() => setActiveTab('priority')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'priority'
+                    ? 'border-red-500 text-red-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <Gauge className="w-4 h-4 inline mr-2" />
+                Priority
+              </button>
+            )}
+            {can('alert_type.manage') && (
+              <button
+                onClick={() => setActiveTab('alert_types')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'alert_types'
+                    ? 'border-red-500 text-red-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <Tags className="w-4 h-4 inline mr-2" />
+                Alert Types
+              </button>
+            )}
           </nav>
         </div>
       </div>
@@ -142,7 +262,22 @@ export default function AdminPortal() {
         {activeTab === 'dashboard' && <AlertDashboard />}
         {activeTab === 'clients' && <ClientList />}
         {activeTab === 'map' && <AdminMap />}
+        {activeTab === 'history' && <IncidentHistory />}
+        {activeTab === 'analytics' && can('analytics.view') && <AnalyticsDashboard />}
+        {activeTab === 'audit' && can('audit.view') && <AuditLog />}
+        {activeTab === 'escalation' && can('escalation.manage') && <EscalationSettings />}
+        {activeTab === 'priority' && can('priority.manage') && <PrioritySettings />}
+        {activeTab === 'alert_types' && can('alert_type.manage') && <AlertTypeSettings />}
       </div>
+
+      {showAlarmSettings && (
+        <AlarmSettingsModal
+          settings={alarm.settings}
+          onSave={alarm.updateSettings}
+          onTest={alarm.testAlarm}
+          onClose={() => setShowAlarmSettings(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
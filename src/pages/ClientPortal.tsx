@@ -1,14 +1,47 @@
 import React, { useState } from 'react';
 import { useEmergency } from '../context/EmergencyContext';
+import { useAuth } from '../hooks/useAuth';
 import EmergencyButtons from '../components/EmergencyButtons';
+import AlertChat from '../components/AlertChat';
+import AlertStatusCard from '../components/AlertStatusCard';
 import LocationMap from '../components/LocationMap';
 import ClientDetails from '../components/ClientDetails';
 import Navigation from '../components/Navigation';
+import PinPrompt from '../components/PinPrompt';
+import PinSettings from '../components/PinSettings';
+import { isOpenStatus } from '../lib/alertLifecycle';
 import { MapPin, User, Phone, Mail, Home, Contact } from 'lucide-react';
 
+// How long a closed alert's status card stays up unless dismissed
+const STATUS_CARD_LINGER_MS = 30 * 60 * 1000;
+
 export default function ClientPortal() {
-  const { currentClient } = useEmergency();
+  const { currentClient, pinsConfigured, verifyPin, alerts } = useEmergency();
+  const { user, signOut } = useAuth();
   const [activeTab, setActiveTab] = useState<'map' | 'profile'>('map');
+  const pinSessionKey = `securealert.pinVerified.${user?.id}`;
+  const [pinVerified, setPinVerified] = useState(() => sessionStorage.getItem(pinSessionKey) === 'true');
+
+  const dismissedKey = `securealert.dismissedAlert.${user?.id}`;
+  const [dismissedAlertId, setDismissedAlertId] = useState(() => localStorage.getItem(dismissedKey));
+
+  // The status card and chat follow the alert the client most recently pressed for
+  const latestAlert = alerts
+    .filter(alert => !alert.duress)
+    .sort((a, b) => b.lastPressedAt.getTime() - a.lastPressedAt.getTime())[0];
+
+  const chatAlert = latestAlert && isOpenStatus(latestAlert.status) ? latestAlert : undefined;
+
+  // A closed alert stays on screen for a while so the client sees how it ended
+  const statusAlert = latestAlert && (
+    isOpenStatus(latestAlert.status) ||
+    (latestAlert.id !== dismissedAlertId && Date.now() - (latestAlert.resolvedAt?.getTime() ?? 0) < STATUS_CARD_LINGER_MS)
+  ) ? latestAlert : undefined;
+
+  const dismissStatus = (alertId: string) => {
+    localStorage.setItem(dismissedKey, alertId);
+    setDismissedAlertId(alertId);
+  };
 
   if (!currentClient) {
     return (
@@ -21,6 +54,31 @@ export default function ClientPortal() {
     );
   }
 
+  if (pinsConfigured && !pinVerified) {
+    const handlePinSubmit = async (pin: string) => {
+      const accepted = await verifyPin(pin, 'login');
+      if (accepted) {
+        sessionStorage.setItem(pinSessionKey, 'true');
+        setPinVerified(true);
+      }
+      return accepted;
+    };
+
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+        <div className="max-w-sm w-full bg-white rounded-lg shadow-sm border p-6">
+          <PinPrompt
+            title={`Welcome back, ${currentClient.name}`}
+            description="Enter your PIN to open your portal"
+            submitLabel="Continue"
+            onSubmit={handlePinSubmit}
+            onCancel={signOut}
+          />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navigation />
@@ -48,7 +106,17 @@ export default function ClientPortal() {
 
       {/* Emergency Buttons - Always Visible */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {statusAlert && (
+          <div className="mb-6">
+            <AlertStatusCard alert={statusAlert} onDismiss={() => dismissStatus(statusAlert.id)} />
+          </div>
+        )}
         <EmergencyButtons />
+        {chatAlert && (
+          <div className="mt-6 bg-white rounded-lg shadow-sm border p-6">
+            <AlertChat alertId={chatAlert.id} side="client" open counterpartName="the control room" />
+          </div>
+        )}
       </div>
 
       {/* Tab Navigation */}
@@ -117,7 +185,10 @@ export default function ClientPortal() {
             </div>
           </div>
         ) : (
-          <ClientDetails client={currentClient} />
+          <>
+            <ClientDetails client={currentClient} />
+            <PinSettings />
+          </>
         )}
       </div>
     </div>
@@ -0,0 +1,343 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Factor } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { generateRecoveryCodes } from '../lib/mfa';
+import { useAuth } from '../hooks/useAuth';
+import Navigation from '../components/Navigation';
+import { ShieldCheck, Smartphone, KeyRound, AlertCircle, Copy, Check, Download, ArrowRight } from 'lucide-react';
+
+interface PendingEnrolment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+export default function SecuritySettings() {
+  const { user, assuranceLevel } = useAuth();
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [remainingCodes, setRemainingCodes] = useState<number | null>(null);
+  const [enrolment, setEnrolment] = useState<PendingEnrolment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const enrolmentRequired = assuranceLevel !== 'aal2';
+
+  const loadFactors = useCallback(async () => {
+    const { data, error } = await supabase.auth.mfa.listFactors();
+
+    if (error) {
+      console.error('Error loading factors:', error);
+      return;
+    }
+
+    setFactors(data.totp);
+  }, []);
+
+  const userId = user?.id;
+
+  const loadRemainingCodes = useCallback(async () => {
+    if (!userId) return;
+
+    const { count, error } = await supabase
+      .from('mfa_recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('used_at', null);
+
+    if (error) {
+      console.error('Error loading recovery codes:', error);
+      return;
+    }
+
+    setRemainingCodes(count ?? 0);
+  }, [userId]);
+
+  useEffect(() => {
+    loadFactors();
+    loadRemainingCodes();
+  }, [loadFactors, loadRemainingCodes]);
+
+  const startEnrolment = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      // Drop abandoned attempts so the new factor's name doesn't clash
+      const { data: existing } = await supabase.auth.mfa.listFactors();
+      for (const factor of existing?.all ?? []) {
+        if (factor.status === 'unverified') {
+          await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        }
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName: `Authenticator ${new Date().toLocaleDateString()}`,
+      });
+
+      if (error) throw error;
+
+      setEnrolment({
+        factorId: data.id,
+        qrCode: data.totp.qr_code,
+        secret: data.totp.secret,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start enrolment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmEnrolment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrolment) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: enrolment.factorId,
+        code: code.trim(),
+      });
+
+      if (error) throw error;
+
+      setEnrolment(null);
+      setCode('');
+      setRecoveryCodes(await generateRecoveryCodes());
+      await Promise.all([loadFactors(), loadRemainingCodes()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const regenerateCodes = async () => {
+    if (!confirm('Generate new recovery codes? Your existing codes will stop working.')) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      setRecoveryCodes(await generateRecoveryCodes());
+      await loadRemainingCodes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate recovery codes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const downloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([recoveryCodes.join('\n') + '\n'], { type: 'text/plain' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'securealert-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation isAdmin />
+
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-red-600 rounded-full flex items-center justify-center">
+              <ShieldCheck className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900">Account Security</h1>
+              <p className="text-sm text-gray-500">Two-factor authentication for control room access</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {enrolmentRequired && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+            <p className="text-sm text-yellow-800">
+              Staff accounts must use an authenticator app. Set one up below to open the control center.
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <div className="flex">
+              <AlertCircle className="w-5 h-5 text-red-400" />
+              <div className="ml-3">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Authenticator App */}
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="px-6 py-4 border-b bg-gray-50">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <Smartphone className="w-5 h-5 mr-2 text-gray-400" />
+              Authenticator App
+            </h3>
+            <p className="text-sm text-gray-500">Time-based one-time codes (TOTP)</p>
+          </div>
+
+          <div className="p-6">
+            {enrolment ? (
+              <form onSubmit={confirmEnrolment} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
+                  <div className="flex justify-center">
+                    <img src={enrolment.qrCode} alt="Authenticator QR code" className="w-48 h-48 border rounded-lg p-2" />
+                  </div>
+                  <div className="space-y-3 text-sm text-gray-600">
+                    <p>1. Scan the QR code with Google Authenticator, 1Password, Authy or a similar app.</p>
+                    <p>2. If you can't scan it, enter this key manually:</p>
+                    <p className="font-mono text-gray-900 bg-gray-50 border rounded px-2 py-1 break-all">{enrolment.secret}</p>
+                    <p>3. Enter the 6-digit code the app shows.</p>
+                  </div>
+                </div>
+
+                <div className="flex space-x-3">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    required
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 tracking-widest font-mono"
+                    placeholder="123456"
+                  />
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {loading ? 'Verifying...' : 'Verify & Enable'}
+                  </button>
+                </div>
+              </form>
+            ) : factors.length > 0 ? (
+              <div className="space-y-3">
+                {factors.map((factor) => (
+                  <div key={factor.id} className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <ShieldCheck className="w-5 h-5 text-green-500" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{factor.friendly_name || 'Authenticator app'}</p>
+                        <p className="text-xs text-gray-500">Added {new Date(factor.created_at).toLocaleString()}</p>
+                      </div>
+                    </div>
+                    <span className="text-xs font-medium text-green-700 bg-green-100 px-2 py-1 rounded-full">Active</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-4">
+                <Smartphone className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-600 mb-4">No authenticator app is set up for this account.</p>
+                <button
+                  onClick={startEnrolment}
+                  disabled={loading}
+                  className="inline-flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Set Up Authenticator
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Recovery Codes */}
+        {factors.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border">
+            <div className="px-6 py-4 border-b bg-gray-50">
+              <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                <KeyRound className="w-5 h-5 mr-2 text-gray-400" />
+                Recovery Codes
+              </h3>
+              <p className="text-sm text-gray-500">Use these if you lose access to your authenticator app</p>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {recoveryCodes ? (
+                <>
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+                    Store these codes somewhere safe. They will not be shown again and each one works once.
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 bg-gray-50 border rounded-lg p-4">
+                    {recoveryCodes.map((recoveryCode) => (
+                      <span key={recoveryCode}>{recoveryCode}</span>
+                    ))}
+                  </div>
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={copyCodes}
+                      className="inline-flex items-center px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+                      {copied ? 'Copied' : 'Copy'}
+                    </button>
+                    <button
+                      onClick={downloadCodes}
+                      className="inline-flex items-center px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Download
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-600">
+                    {remainingCodes === null
+                      ? 'Checking recovery codes...'
+                      : `${remainingCodes} unused recovery ${remainingCodes === 1 ? 'code' : 'codes'} remaining`}
+                  </p>
+                  <button
+                    onClick={regenerateCodes}
+                    disabled={loading}
+                    className="px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  >
+                    Generate New Codes
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {!enrolmentRequired && (
+          <Link
+            to="/admin"
+            className="inline-flex items-center text-sm font-medium text-red-600 hover:text-red-700"
+          >
+            Continue to Security Control Center
+            <ArrowRight className="w-4 h-4 ml-1" />
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Must match encode(digest(token, 'sha256'), 'hex') in create_client_invite
+const hashToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const { token, password } = await req.json().catch(() => ({}));
+
+  if (typeof token !== 'string' || typeof password !== 'string') {
+    return json({ error: 'Token and password are required' }, 400);
+  }
+
+  if (password.length < 8) {
+    return json({ error: 'Password must be at least 8 characters' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data: invite, error } = await supabase
+    .from('client_invites')
+    .select('id, client_id, email, expires_at, accepted_at')
+    .eq('token_hash', await hashToken(token))
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading invite:', error);
+    return json({ error: 'Failed to look up invite' }, 500);
+  }
+
+  if (!invite || invite.accepted_at || new Date(invite.expires_at) <= new Date()) {
+    return json({ error: 'This invite link is invalid or has expired' }, 410);
+  }
+
+  // Claim the invite before creating the account so a token can only be redeemed once
+  const { data: claimed } = await supabase
+    .from('client_invites')
+    .update({ accepted_at: new Date().toISOString() })
+    .eq('id', invite.id)
+    .is('accepted_at', null)
+    .select('id');
+
+  if (!claimed?.length) {
+    return json({ error: 'This invite link is invalid or has expired' }, 410);
+  }
+
+  // The auth user reuses the client id so existing RLS (auth.uid() = clients.id) keeps working
+  const { error: createError } = await supabase.auth.admin.createUser({
+    id: invite.client_id,
+    email: invite.email,
+    password,
+    email_confirm: true,
+  });
+
+  if (createError) {
+    console.error('Error creating user:', createError);
+    await supabase
+      .from('client_invites')
+      .update({ accepted_at: null })
+      .eq('id', invite.id);
+    return json({ error: createError.message }, 400);
+  }
+
+  const { data: client } = await supabase
+    .from('clients')
+    .select('organization_id')
+    .eq('id', invite.client_id)
+    .single();
+
+  const { error: roleError } = await supabase
+    .from('user_roles')
+    .upsert({
+      user_id: invite.client_id,
+      role: 'client',
+      organization_id: client?.organization_id,
+    });
+
+  if (roleError) {
+    console.error('Error assigning client role:', roleError);
+  }
+
+  return json({ email: invite.email });
+});
@@ -0,0 +1,96 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Must match the hashing in generate_mfa_recovery_codes
+const hashCode = async (code: string) => {
+  const normalised = code.toLowerCase().replace(/[^0-9a-f]/g, '');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalised));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// A valid recovery code removes the user's TOTP factors so they can sign in with
+// their password and enrol a new authenticator. Each code works once.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const jwt = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!jwt) {
+    return json({ error: 'Sign in with your password first' }, 401);
+  }
+
+  const { code } = await req.json().catch(() => ({}));
+  if (typeof code !== 'string' || !code.trim()) {
+    return json({ error: 'Recovery code is required' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser(jwt);
+  if (userError || !user) {
+    return json({ error: 'Sign in with your password first' }, 401);
+  }
+
+  const { data: used, error: useError } = await supabase
+    .from('mfa_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', user.id)
+    .eq('code_hash', await hashCode(code))
+    .is('used_at', null)
+    .select('id');
+
+  if (useError) {
+    console.error('Error redeeming recovery code:', useError);
+    return json({ error: 'Failed to check recovery code' }, 500);
+  }
+
+  if (!used?.length) {
+    return json({ error: 'Invalid or already used recovery code' }, 400);
+  }
+
+  const { data: factors, error: factorsError } = await supabase.auth.admin.mfa.listFactors({
+    userId: user.id,
+  });
+
+  if (factorsError) {
+    console.error('Error listing factors:', factorsError);
+    return json({ error: 'Failed to reset two-factor authentication' }, 500);
+  }
+
+  for (const factor of factors.factors) {
+    if (factor.factor_type !== 'totp') continue;
+
+    const { error: deleteError } = await supabase.auth.admin.mfa.deleteFactor({
+      id: factor.id,
+      userId: user.id,
+    });
+
+    if (deleteError) {
+      console.error('Error deleting factor:', deleteError);
+      return json({ error: 'Failed to reset two-factor authentication' }, 500);
+    }
+  }
+
+  return json({ reset: true });
+});
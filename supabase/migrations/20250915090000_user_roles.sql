@@ -0,0 +1,150 @@
+/*
+  # Role-based access control
+
+  1. New Tables
+    - `user_roles`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `role` (text, one of 'client', 'operator', 'supervisor', 'auditor')
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Functions
+    - `current_user_role()` returns the role of the signed-in user
+    - `is_staff()` is true for operators, supervisors and auditors
+    - `assign_client_role()` trigger gives every new client row the 'client' role
+
+  3. Security
+    - Enable RLS on `user_roles`
+    - Users can read their own role, supervisors can manage all roles
+    - Replace every `email LIKE '%@admin.%'` policy with `is_staff()`
+
+  4. Data
+    - Existing `@admin.` accounts become operators and existing clients become clients.
+      The first supervisor has to be promoted by hand:
+      UPDATE user_roles SET role = 'supervisor' WHERE user_id = '<uuid>';
+*/
+
+-- Create user_roles table
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'client' CHECK (role IN ('client', 'operator', 'supervisor', 'auditor')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_role ON user_roles(role);
+
+-- Role helpers used by RLS policies
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM user_roles WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_staff()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(current_user_role() IN ('operator', 'supervisor', 'auditor'), false);
+$$;
+
+-- Give new clients the client role
+CREATE OR REPLACE FUNCTION public.assign_client_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM auth.users WHERE id = NEW.id) THEN
+    INSERT INTO user_roles (user_id, role)
+    VALUES (NEW.id, 'client')
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clients_assign_role
+  AFTER INSERT ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_client_role();
+
+-- Backfill roles for existing accounts
+INSERT INTO user_roles (user_id, role)
+SELECT id, 'operator' FROM auth.users WHERE email LIKE '%@admin.%'
+ON CONFLICT (user_id) DO NOTHING;
+
+INSERT INTO user_roles (user_id, role)
+SELECT clients.id, 'client' FROM clients
+JOIN auth.users ON auth.users.id = clients.id
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user_roles table
+CREATE POLICY "Users can read own role"
+  ON user_roles
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Supervisors can read all roles"
+  ON user_roles
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'supervisor');
+
+CREATE POLICY "Supervisors can manage roles"
+  ON user_roles
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'supervisor')
+  WITH CHECK (current_user_role() = 'supervisor');
+
+-- Replace email-based admin policies on clients
+DROP POLICY IF EXISTS "Admins can read all clients" ON clients;
+DROP POLICY IF EXISTS "Admins can insert clients" ON clients;
+DROP POLICY IF EXISTS "Admins can update clients" ON clients;
+
+CREATE POLICY "Staff can read all clients"
+  ON clients
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Staff can insert clients"
+  ON clients
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can update clients"
+  ON clients
+  FOR UPDATE
+  TO authenticated
+  USING (is_staff());
+
+-- Replace email-based admin policies on alerts
+DROP POLICY IF EXISTS "Clients can read own alerts" ON alerts;
+DROP POLICY IF EXISTS "Admins can update alerts" ON alerts;
+
+CREATE POLICY "Clients can read own alerts"
+  ON alerts
+  FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid() OR is_staff());
+
+CREATE POLICY "Staff can update alerts"
+  ON alerts
+  FOR UPDATE
+  TO authenticated
+  USING (is_staff());
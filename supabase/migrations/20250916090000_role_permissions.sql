@@ -0,0 +1,133 @@
+/*
+  # Permission matrix for staff roles
+
+  1. New Tables
+    - `role_permissions`
+      - `role` (text)
+      - `permission` (text)
+      - primary key (`role`, `permission`)
+
+  2. Functions
+    - `has_permission(permission)` checks the signed-in user's role against `role_permissions`
+
+  3. Security
+    - Enable RLS on `role_permissions`, readable by any signed-in user
+    - Staff policies on `clients`, `alerts` and `user_roles` now check individual permissions
+    - Only supervisors can delete clients
+    - Only operators can acknowledge or resolve alerts, auditors are read-only
+
+  The seeded matrix mirrors `ROLE_PERMISSIONS` in `src/lib/permissions.ts`.
+*/
+
+-- Create role_permissions table
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text NOT NULL CHECK (role IN ('client', 'operator', 'supervisor', 'auditor')),
+  permission text NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('operator', 'client.view'),
+  ('operator', 'client.create'),
+  ('operator', 'client.update'),
+  ('operator', 'alert.view'),
+  ('operator', 'alert.acknowledge'),
+  ('operator', 'alert.resolve'),
+  ('supervisor', 'client.view'),
+  ('supervisor', 'client.create'),
+  ('supervisor', 'client.update'),
+  ('supervisor', 'client.delete'),
+  ('supervisor', 'alert.view'),
+  ('supervisor', 'role.manage'),
+  ('auditor', 'client.view'),
+  ('auditor', 'alert.view')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM role_permissions
+    WHERE role = current_user_role()
+    AND permission = p_permission
+  );
+$$;
+
+-- Enable RLS
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read permissions"
+  ON role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Clients table
+DROP POLICY IF EXISTS "Staff can read all clients" ON clients;
+DROP POLICY IF EXISTS "Staff can insert clients" ON clients;
+DROP POLICY IF EXISTS "Staff can update clients" ON clients;
+
+CREATE POLICY "Staff can read all clients"
+  ON clients
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('client.view'));
+
+CREATE POLICY "Staff can insert clients"
+  ON clients
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('client.create'));
+
+CREATE POLICY "Staff can update clients"
+  ON clients
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('client.update'));
+
+CREATE POLICY "Supervisors can delete clients"
+  ON clients
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('client.delete'));
+
+-- Alerts table
+DROP POLICY IF EXISTS "Clients can read own alerts" ON alerts;
+DROP POLICY IF EXISTS "Staff can update alerts" ON alerts;
+
+CREATE POLICY "Clients can read own alerts"
+  ON alerts
+  FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid() OR has_permission('alert.view'));
+
+CREATE POLICY "Operators can update alerts"
+  ON alerts
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('alert.acknowledge') OR has_permission('alert.resolve'))
+  WITH CHECK (
+    (status <> 'acknowledged' OR has_permission('alert.acknowledge')) AND
+    (status <> 'resolved' OR has_permission('alert.resolve'))
+  );
+
+-- User roles table
+DROP POLICY IF EXISTS "Supervisors can read all roles" ON user_roles;
+DROP POLICY IF EXISTS "Supervisors can manage roles" ON user_roles;
+
+CREATE POLICY "Supervisors can read all roles"
+  ON user_roles
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('role.manage'));
+
+CREATE POLICY "Supervisors can manage roles"
+  ON user_roles
+  FOR ALL
+  TO authenticated
+  USING (has_permission('role.manage'))
+  WITH CHECK (has_permission('role.manage'));
@@ -0,0 +1,110 @@
+/*
+  # Invitation-based client onboarding
+
+  1. New Tables
+    - `client_invites`
+      - `id` (uuid, primary key)
+      - `client_id` (uuid, foreign key)
+      - `email` (text)
+      - `token_hash` (text, sha256 of the one-time token, unique)
+      - `expires_at` (timestamp)
+      - `accepted_at` (timestamp)
+      - `created_by` (uuid, references auth.users)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `create_client_invite(client_id)` issues a fresh token and returns it once in plain text
+    - `get_client_invite(token)` lets the invite page show who the invite is for
+
+  3. Security
+    - Enable RLS on `client_invites`, staff who can create clients can read invites
+    - Only token hashes are stored; accepting an invite goes through the `accept-invite`
+      edge function, which creates the auth user with the service role
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Create client_invites table
+CREATE TABLE IF NOT EXISTS client_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  token_hash text UNIQUE NOT NULL,
+  expires_at timestamptz NOT NULL,
+  accepted_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_invites_client_id ON client_invites(client_id);
+
+-- Issue an invite, replacing any pending one for the same client
+CREATE OR REPLACE FUNCTION public.create_client_invite(p_client_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_email text;
+  v_token text;
+BEGIN
+  IF NOT has_permission('client.create') THEN
+    RAISE EXCEPTION 'Not allowed to invite clients' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT email INTO v_email FROM clients WHERE id = p_client_id;
+  IF v_email IS NULL THEN
+    RAISE EXCEPTION 'Client not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM auth.users WHERE id = p_client_id) THEN
+    RAISE EXCEPTION 'Client already has an account' USING ERRCODE = '23505';
+  END IF;
+
+  DELETE FROM client_invites
+  WHERE client_id = p_client_id
+  AND accepted_at IS NULL;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO client_invites (client_id, email, token_hash, expires_at, created_by)
+  VALUES (
+    p_client_id,
+    v_email,
+    encode(digest(v_token, 'sha256'), 'hex'),
+    now() + interval '72 hours',
+    auth.uid()
+  );
+
+  RETURN v_token;
+END;
+$$;
+
+-- Look up a pending invite by its token
+CREATE OR REPLACE FUNCTION public.get_client_invite(p_token text)
+RETURNS TABLE (email text, name text, expires_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT client_invites.email, clients.name, client_invites.expires_at
+  FROM client_invites
+  JOIN clients ON clients.id = client_invites.client_id
+  WHERE client_invites.token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  AND client_invites.accepted_at IS NULL
+  AND client_invites.expires_at > now();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_client_invite(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_client_invite(text) TO anon, authenticated;
+
+-- Enable RLS
+ALTER TABLE client_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read invites"
+  ON client_invites
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('client.create'));
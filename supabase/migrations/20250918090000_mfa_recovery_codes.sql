@@ -0,0 +1,90 @@
+/*
+  # Two-factor authentication for staff
+
+  1. New Tables
+    - `mfa_recovery_codes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `code_hash` (text, sha256 of the normalised code)
+      - `used_at` (timestamp)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `generate_mfa_recovery_codes()` replaces the caller's recovery codes and returns the new
+      ones in plain text, once. Requires an `aal2` session.
+    - `has_permission(permission)` now also requires an `aal2` session, so staff permissions are
+      only granted after the TOTP step. Clients hold no permissions and are unaffected.
+
+  3. Security
+    - Enable RLS on `mfa_recovery_codes`, users can see which of their own codes are used but
+      cannot read the hashes. Redemption goes through the `redeem-recovery-code` edge function.
+*/
+
+-- Create mfa_recovery_codes table
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
+
+CREATE OR REPLACE FUNCTION public.generate_mfa_recovery_codes()
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_codes text[] := '{}';
+  v_code text;
+BEGIN
+  IF auth.uid() IS NULL OR coalesce(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Two-factor verification required' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    v_code := encode(gen_random_bytes(5), 'hex');
+    v_codes := array_append(v_codes, substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5));
+
+    -- Stored without the dash; the edge function normalises input the same way
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), encode(digest(v_code, 'sha256'), 'hex'));
+  END LOOP;
+
+  RETURN v_codes;
+END;
+$$;
+
+-- Staff permissions require a second factor
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+  AND EXISTS (
+    SELECT 1 FROM role_permissions
+    WHERE role = current_user_role()
+    AND permission = p_permission
+  );
+$$;
+
+-- Enable RLS
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own recovery codes"
+  ON mfa_recovery_codes
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Expose usage but never the hashes
+REVOKE SELECT ON mfa_recovery_codes FROM anon, authenticated;
+GRANT SELECT (id, user_id, used_at, created_at) ON mfa_recovery_codes TO authenticated;
@@ -0,0 +1,43 @@
+/*
+  # Console session events
+
+  1. New Tables
+    - `session_events`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `event` (text, one of 'lock', 'unlock', 'unlock_failed', 'expired')
+      - `reason` (text, e.g. 'idle' or 'manual' for locks)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `session_events`
+    - Users can record and read their own events, supervisors can read everyone's
+    - Rows cannot be updated or deleted
+*/
+
+-- Create session_events table
+CREATE TABLE IF NOT EXISTS session_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN ('lock', 'unlock', 'unlock_failed', 'expired')),
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_events_user_id ON session_events(user_id);
+CREATE INDEX IF NOT EXISTS idx_session_events_created_at ON session_events(created_at DESC);
+
+-- Enable RLS
+ALTER TABLE session_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can record own session events"
+  ON session_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can read own session events"
+  ON session_events
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR has_permission('role.manage'));
@@ -0,0 +1,107 @@
+/*
+  # Client PINs and duress alerts
+
+  1. New Tables
+    - `client_pins`
+      - `client_id` (uuid, primary key, foreign key)
+      - `pin_hash` (text, bcrypt of the client's everyday PIN)
+      - `duress_pin_hash` (text, bcrypt of the PIN entered under coercion)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - `alerts.duress` (boolean, default false) marks alerts raised by a duress PIN
+
+  3. Functions
+    - `set_client_pins(pin, duress_pin)` stores both PINs for the signed-in client
+    - `client_pins_configured()` tells the client portal whether to ask for a PIN
+    - `check_client_pin(pin)` returns 'valid', 'duress', 'invalid' or 'unset'
+
+  4. Security
+    - Enable RLS on `client_pins` with no policies; PINs are only reachable through
+      the functions above and hashes never leave the database
+*/
+
+-- Create client_pins table
+CREATE TABLE IF NOT EXISTS client_pins (
+  client_id uuid PRIMARY KEY REFERENCES clients(id) ON DELETE CASCADE,
+  pin_hash text NOT NULL,
+  duress_pin_hash text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS duress boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_duress ON alerts(duress) WHERE duress;
+
+CREATE OR REPLACE FUNCTION public.set_client_pins(p_pin text, p_duress_pin text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM clients WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only clients can set PINs' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,8}$' OR p_duress_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PINs must be 4 to 8 digits' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_pin = p_duress_pin THEN
+    RAISE EXCEPTION 'Your duress PIN must be different from your PIN' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO client_pins (client_id, pin_hash, duress_pin_hash, updated_at)
+  VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')), crypt(p_duress_pin, gen_salt('bf')), now())
+  ON CONFLICT (client_id) DO UPDATE SET
+    pin_hash = EXCLUDED.pin_hash,
+    duress_pin_hash = EXCLUDED.duress_pin_hash,
+    updated_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.client_pins_configured()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM client_pins WHERE client_id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_client_pin(p_pin text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_pins client_pins%ROWTYPE;
+BEGIN
+  SELECT * INTO v_pins FROM client_pins WHERE client_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RETURN 'unset';
+  END IF;
+
+  IF v_pins.duress_pin_hash = crypt(p_pin, v_pins.duress_pin_hash) THEN
+    RETURN 'duress';
+  END IF;
+
+  IF v_pins.pin_hash = crypt(p_pin, v_pins.pin_hash) THEN
+    RETURN 'valid';
+  END IF;
+
+  RETURN 'invalid';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_client_pins(text, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.client_pins_configured() FROM anon;
+REVOKE EXECUTE ON FUNCTION public.check_client_pin(text) FROM anon;
+
+-- Enable RLS
+ALTER TABLE client_pins ENABLE ROW LEVEL SECURITY;
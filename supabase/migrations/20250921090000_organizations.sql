@@ -0,0 +1,364 @@
+/*
+  # Multi-tenant organisations
+
+  1. New Tables
+    - `organizations`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `slug` (text, unique)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `organization_id` on `clients`, `alerts` and `user_roles`
+    - New `super_admin` role, which has no organisation and can see every tenant
+    - `alerts.organization_id` is always copied from the alert's client
+    - Only super admins can move a client to another organisation
+
+  3. Functions
+    - `current_organization_id()` returns the signed-in user's organisation
+    - `is_super_admin()` is true for the platform-wide super admin role
+    - `in_organization(organization_id)` is true for members of that organisation and super admins
+
+  4. Security
+    - Enable RLS on `organizations`, members can read their own, super admins manage all
+    - Staff policies on `clients`, `alerts`, `user_roles`, `client_invites` and
+      `session_events` are scoped to the staff member's organisation
+
+  5. Data
+    - Existing rows move into a "Default Organization". Super admins have to be
+      promoted by hand:
+      UPDATE user_roles SET role = 'super_admin', organization_id = NULL WHERE user_id = '<uuid>';
+*/
+
+-- Create organizations table
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  slug text UNIQUE NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO organizations (name, slug)
+VALUES ('Default Organization', 'default')
+ON CONFLICT (slug) DO NOTHING;
+
+-- Allow the super_admin role
+ALTER TABLE user_roles DROP CONSTRAINT IF EXISTS user_roles_role_check;
+ALTER TABLE user_roles ADD CONSTRAINT user_roles_role_check
+  CHECK (role IN ('client', 'operator', 'supervisor', 'auditor', 'super_admin'));
+
+ALTER TABLE role_permissions DROP CONSTRAINT IF EXISTS role_permissions_role_check;
+ALTER TABLE role_permissions ADD CONSTRAINT role_permissions_role_check
+  CHECK (role IN ('client', 'operator', 'supervisor', 'auditor', 'super_admin'));
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('super_admin', 'client.view'),
+  ('super_admin', 'client.create'),
+  ('super_admin', 'client.update'),
+  ('super_admin', 'client.delete'),
+  ('super_admin', 'alert.view'),
+  ('super_admin', 'alert.acknowledge'),
+  ('super_admin', 'alert.resolve'),
+  ('super_admin', 'role.manage'),
+  ('super_admin', 'organization.manage')
+ON CONFLICT DO NOTHING;
+
+-- Add organization_id columns and backfill into the default organisation
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE RESTRICT;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE RESTRICT;
+ALTER TABLE user_roles ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE RESTRICT;
+
+UPDATE clients SET organization_id = (SELECT id FROM organizations WHERE slug = 'default')
+WHERE organization_id IS NULL;
+
+UPDATE alerts SET organization_id = clients.organization_id
+FROM clients
+WHERE clients.id = alerts.client_id
+AND alerts.organization_id IS NULL;
+
+UPDATE user_roles SET organization_id = (SELECT id FROM organizations WHERE slug = 'default')
+WHERE organization_id IS NULL;
+
+ALTER TABLE alerts ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE user_roles ADD CONSTRAINT user_roles_organization_check
+  CHECK (role = 'super_admin' OR organization_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_clients_organization_id ON clients(organization_id);
+CREATE INDEX IF NOT EXISTS idx_alerts_organization_id ON alerts(organization_id);
+CREATE INDEX IF NOT EXISTS idx_user_roles_organization_id ON user_roles(organization_id);
+
+-- Tenant helpers used by RLS policies
+CREATE OR REPLACE FUNCTION public.current_organization_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM user_roles WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_super_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(current_user_role() = 'super_admin', false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.in_organization(p_organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_super_admin() OR p_organization_id = current_organization_id();
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_staff()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(current_user_role() IN ('operator', 'supervisor', 'auditor', 'super_admin'), false);
+$$;
+
+-- New clients land in the creating staff member's organisation
+ALTER TABLE clients ALTER COLUMN organization_id SET DEFAULT current_organization_id();
+ALTER TABLE clients ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.guard_client_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organization_id IS DISTINCT FROM OLD.organization_id AND NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Only super admins can move clients between organisations' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clients_guard_organization
+  BEFORE UPDATE ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_client_organization();
+
+-- Alerts always belong to their client's organisation
+CREATE OR REPLACE FUNCTION public.set_alert_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT organization_id INTO NEW.organization_id FROM clients WHERE id = NEW.client_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER alerts_set_organization
+  BEFORE INSERT ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_alert_organization();
+
+-- Client roles carry the client's organisation
+CREATE OR REPLACE FUNCTION public.assign_client_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM auth.users WHERE id = NEW.id) THEN
+    INSERT INTO user_roles (user_id, role, organization_id)
+    VALUES (NEW.id, 'client', NEW.organization_id)
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Invites can only be issued for clients in the caller's organisation
+CREATE OR REPLACE FUNCTION public.create_client_invite(p_client_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_email text;
+  v_token text;
+BEGIN
+  IF NOT has_permission('client.create') THEN
+    RAISE EXCEPTION 'Not allowed to invite clients' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT email INTO v_email FROM clients
+  WHERE id = p_client_id
+  AND in_organization(organization_id);
+
+  IF v_email IS NULL THEN
+    RAISE EXCEPTION 'Client not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM auth.users WHERE id = p_client_id) THEN
+    RAISE EXCEPTION 'Client already has an account' USING ERRCODE = '23505';
+  END IF;
+
+  DELETE FROM client_invites
+  WHERE client_id = p_client_id
+  AND accepted_at IS NULL;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO client_invites (client_id, email, token_hash, expires_at, created_by)
+  VALUES (
+    p_client_id,
+    v_email,
+    encode(digest(v_token, 'sha256'), 'hex'),
+    now() + interval '72 hours',
+    auth.uid()
+  );
+
+  RETURN v_token;
+END;
+$$;
+
+-- Enable RLS
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for organizations table
+CREATE POLICY "Members can read own organization"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (in_organization(id));
+
+CREATE POLICY "Super admins can manage organizations"
+  ON organizations
+  FOR ALL
+  TO authenticated
+  USING (has_permission('organization.manage'))
+  WITH CHECK (has_permission('organization.manage'));
+
+-- Clients table
+DROP POLICY IF EXISTS "Staff can read all clients" ON clients;
+DROP POLICY IF EXISTS "Staff can insert clients" ON clients;
+DROP POLICY IF EXISTS "Staff can update clients" ON clients;
+DROP POLICY IF EXISTS "Supervisors can delete clients" ON clients;
+
+CREATE POLICY "Staff can read organization clients"
+  ON clients
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('client.view') AND in_organization(organization_id));
+
+CREATE POLICY "Staff can insert organization clients"
+  ON clients
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('client.create') AND in_organization(organization_id));
+
+CREATE POLICY "Staff can update organization clients"
+  ON clients
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('client.update') AND in_organization(organization_id))
+  WITH CHECK (in_organization(organization_id));
+
+CREATE POLICY "Supervisors can delete organization clients"
+  ON clients
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('client.delete') AND in_organization(organization_id));
+
+-- Alerts table
+DROP POLICY IF EXISTS "Clients can read own alerts" ON alerts;
+DROP POLICY IF EXISTS "Operators can update alerts" ON alerts;
+
+CREATE POLICY "Clients can read own alerts"
+  ON alerts
+  FOR SELECT
+  TO authenticated
+  USING (
+    client_id = auth.uid() OR
+    (has_permission('alert.view') AND in_organization(organization_id))
+  );
+
+CREATE POLICY "Operators can update alerts"
+  ON alerts
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (has_permission('alert.acknowledge') OR has_permission('alert.resolve')) AND
+    in_organization(organization_id)
+  )
+  WITH CHECK (
+    in_organization(organization_id) AND
+    (status <> 'acknowledged' OR has_permission('alert.acknowledge')) AND
+    (status <> 'resolved' OR has_permission('alert.resolve'))
+  );
+
+-- User roles table; only super admins can hand out the super_admin role
+DROP POLICY IF EXISTS "Supervisors can read all roles" ON user_roles;
+DROP POLICY IF EXISTS "Supervisors can manage roles" ON user_roles;
+
+CREATE POLICY "Supervisors can read organization roles"
+  ON user_roles
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('role.manage') AND in_organization(organization_id));
+
+CREATE POLICY "Supervisors can manage organization roles"
+  ON user_roles
+  FOR ALL
+  TO authenticated
+  USING (has_permission('role.manage') AND in_organization(organization_id))
+  WITH CHECK (
+    has_permission('role.manage') AND
+    in_organization(organization_id) AND
+    (role <> 'super_admin' OR is_super_admin())
+  );
+
+-- Client invites table
+DROP POLICY IF EXISTS "Staff can read invites" ON client_invites;
+
+CREATE POLICY "Staff can read organization invites"
+  ON client_invites
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_permission('client.create') AND
+    EXISTS (
+      SELECT 1 FROM clients
+      WHERE clients.id = client_invites.client_id
+      AND in_organization(clients.organization_id)
+    )
+  );
+
+-- Session events table
+DROP POLICY IF EXISTS "Users can read own session events" ON session_events;
+
+CREATE POLICY "Users can read own session events"
+  ON session_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid() OR
+    (
+      has_permission('role.manage') AND
+      EXISTS (
+        SELECT 1 FROM user_roles
+        WHERE user_roles.user_id = session_events.user_id
+        AND in_organization(user_roles.organization_id)
+      )
+    )
+  );
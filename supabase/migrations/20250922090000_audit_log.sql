@@ -0,0 +1,237 @@
+/*
+  # Tamper-evident audit log
+
+  1. New Tables
+    - `audit_log`
+      - `id` (bigint, identity, primary key)
+      - `organization_id` (uuid, organisation the entity belongs to)
+      - `actor_id` (uuid, null for service role and scheduled jobs)
+      - `actor_email` (text, captured at write time)
+      - `actor_role` (text)
+      - `action` (text, e.g. 'client.created', 'alert.acknowledged')
+      - `entity_type` (text, one of 'organization', 'client', 'alert', 'role', 'invite')
+      - `entity_id` (text)
+      - `before` (jsonb, row before the change)
+      - `after` (jsonb, row after the change)
+      - `created_at` (timestamp)
+      - `prev_hash` (text, hash of the previous entry)
+      - `hash` (text, sha256 over this entry and `prev_hash`)
+
+  2. Functions
+    - `write_audit_log()` trigger records staff and service-role changes; writes clients
+      make to their own rows (location pings, raising alerts) are not staff actions
+    - `verify_audit_log()` walks the hash chain and returns the first entry that does not
+      match, or null when the log is intact
+
+  3. Security
+    - Enable RLS on `audit_log`, readable with the new `audit.view` permission within
+      the reader's organisation
+    - No insert, update or delete policies; a trigger also rejects updates and deletes
+      from any role, including the table owner
+*/
+
+-- Create audit_log table
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  organization_id uuid,
+  actor_id uuid,
+  actor_email text,
+  actor_role text,
+  action text NOT NULL,
+  entity_type text NOT NULL CHECK (entity_type IN ('organization', 'client', 'alert', 'role', 'invite')),
+  entity_id text NOT NULL,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  prev_hash text,
+  hash text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_organization_id ON audit_log(organization_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_email ON audit_log(actor_email);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('supervisor', 'audit.view'),
+  ('auditor', 'audit.view'),
+  ('super_admin', 'audit.view')
+ON CONFLICT DO NOTHING;
+
+-- The hash covers every column except id and hash itself, in a fixed order
+CREATE OR REPLACE FUNCTION public.audit_log_hash(entry audit_log)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT encode(digest(concat_ws('|',
+    entry.prev_hash,
+    entry.organization_id,
+    entry.actor_id,
+    entry.actor_email,
+    entry.actor_role,
+    entry.action,
+    entry.entity_type,
+    entry.entity_id,
+    entry.before::text,
+    entry.after::text,
+    to_char(entry.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US')
+  ), 'sha256'), 'hex');
+$$;
+
+-- Trigger argument: the entity_type for the audited table
+CREATE OR REPLACE FUNCTION public.write_audit_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_entity text := TG_ARGV[0];
+  v_before jsonb;
+  v_after jsonb;
+  v_row jsonb;
+  v_action text;
+  v_entry audit_log%ROWTYPE;
+BEGIN
+  -- Only audit staff actions and service-role writes
+  IF auth.uid() IS NOT NULL AND NOT is_staff() THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_before := to_jsonb(OLD) - 'token_hash';
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_after := to_jsonb(NEW) - 'token_hash';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_before = v_after THEN
+    RETURN NULL;
+  END IF;
+
+  v_row := coalesce(v_after, v_before);
+
+  v_action := v_entity || '.' || CASE TG_OP
+    WHEN 'INSERT' THEN 'created'
+    WHEN 'DELETE' THEN 'deleted'
+    ELSE 'updated'
+  END;
+
+  IF v_entity = 'alert' AND TG_OP = 'UPDATE'
+    AND v_before ->> 'status' IS DISTINCT FROM v_after ->> 'status' THEN
+    v_action := 'alert.' || (v_after ->> 'status');
+  END IF;
+
+  v_entry.entity_type := v_entity;
+  v_entry.entity_id := coalesce(v_row ->> 'id', v_row ->> 'user_id');
+  v_entry.action := v_action;
+  v_entry.before := v_before;
+  v_entry.after := v_after;
+  v_entry.actor_id := auth.uid();
+  v_entry.actor_email := auth.jwt() ->> 'email';
+  v_entry.actor_role := coalesce(current_user_role(), 'service');
+  v_entry.created_at := now();
+
+  v_entry.organization_id := CASE
+    WHEN v_entity = 'organization' THEN (v_row ->> 'id')::uuid
+    WHEN v_row ? 'organization_id' THEN (v_row ->> 'organization_id')::uuid
+    ELSE (SELECT organization_id FROM clients WHERE id = (v_row ->> 'client_id')::uuid)
+  END;
+
+  -- Serialise writers so each entry chains onto the one before it
+  PERFORM pg_advisory_xact_lock(hashtext('audit_log'));
+  SELECT hash INTO v_entry.prev_hash FROM audit_log ORDER BY id DESC LIMIT 1;
+  v_entry.hash := audit_log_hash(v_entry);
+
+  INSERT INTO audit_log (
+    organization_id, actor_id, actor_email, actor_role, action,
+    entity_type, entity_id, before, after, created_at, prev_hash, hash
+  ) VALUES (
+    v_entry.organization_id, v_entry.actor_id, v_entry.actor_email, v_entry.actor_role, v_entry.action,
+    v_entry.entity_type, v_entry.entity_id, v_entry.before, v_entry.after, v_entry.created_at,
+    v_entry.prev_hash, v_entry.hash
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_audit_log_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reject_audit_log_change();
+
+CREATE OR REPLACE FUNCTION public.verify_audit_log()
+RETURNS bigint
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_entry audit_log%ROWTYPE;
+  v_prev text;
+BEGIN
+  IF NOT has_permission('audit.view') THEN
+    RAISE EXCEPTION 'Not allowed to verify the audit log' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_entry IN SELECT * FROM audit_log ORDER BY id LOOP
+    IF v_entry.prev_hash IS DISTINCT FROM v_prev OR v_entry.hash <> audit_log_hash(v_entry) THEN
+      RETURN v_entry.id;
+    END IF;
+    v_prev := v_entry.hash;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_audit_log() FROM anon;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated, service_role;
+
+-- Audit the tables staff act on
+CREATE TRIGGER organizations_audit
+  AFTER INSERT OR UPDATE OR DELETE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.write_audit_log('organization');
+
+CREATE TRIGGER clients_audit
+  AFTER INSERT OR UPDATE OR DELETE ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.write_audit_log('client');
+
+CREATE TRIGGER alerts_audit
+  AFTER INSERT OR UPDATE OR DELETE ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.write_audit_log('alert');
+
+CREATE TRIGGER user_roles_audit
+  AFTER INSERT OR UPDATE OR DELETE ON user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.write_audit_log('role');
+
+CREATE TRIGGER client_invites_audit
+  AFTER INSERT OR UPDATE OR DELETE ON client_invites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.write_audit_log('invite');
+
+-- Enable RLS
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auditors can read organization audit log"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('audit.view') AND in_organization(organization_id));
@@ -0,0 +1,135 @@
+/*
+  # Alert dispatch lifecycle
+
+  1. New Tables
+    - `alert_status_transitions`
+      - `from_status` (text)
+      - `to_status` (text)
+      - primary key (`from_status`, `to_status`)
+
+  2. Changes
+    - `alerts.status` also allows 'dispatched', 'en_route', 'on_scene', 'false_alarm'
+      and 'cancelled'
+
+  3. Functions
+    - `alert_status_permission(status)` names the permission needed to move an alert
+      into a status
+    - `enforce_alert_transition()` trigger rejects status changes that are not listed
+      in `alert_status_transitions`
+
+  4. Security
+    - Enable RLS on `alert_status_transitions`, readable by any signed-in user
+    - New `alert.dispatch` permission for operators
+    - Staff can only move an alert into a status their role has the permission for
+
+  The seeded transitions mirror `ALERT_TRANSITIONS` in `src/lib/alertLifecycle.ts`.
+*/
+
+ALTER TABLE alerts DROP CONSTRAINT IF EXISTS alerts_status_check;
+ALTER TABLE alerts ADD CONSTRAINT alerts_status_check
+  CHECK (status IN (
+    'active', 'acknowledged', 'dispatched', 'en_route', 'on_scene',
+    'resolved', 'false_alarm', 'cancelled'
+  ));
+
+-- Create alert_status_transitions table
+CREATE TABLE IF NOT EXISTS alert_status_transitions (
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO alert_status_transitions (from_status, to_status) VALUES
+  ('active', 'acknowledged'),
+  ('active', 'resolved'),
+  ('active', 'false_alarm'),
+  ('active', 'cancelled'),
+  ('acknowledged', 'dispatched'),
+  ('acknowledged', 'resolved'),
+  ('acknowledged', 'false_alarm'),
+  ('acknowledged', 'cancelled'),
+  ('dispatched', 'en_route'),
+  ('dispatched', 'resolved'),
+  ('dispatched', 'false_alarm'),
+  ('dispatched', 'cancelled'),
+  ('en_route', 'on_scene'),
+  ('en_route', 'resolved'),
+  ('en_route', 'false_alarm'),
+  ('en_route', 'cancelled'),
+  ('on_scene', 'resolved'),
+  ('on_scene', 'false_alarm')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('operator', 'alert.dispatch'),
+  ('super_admin', 'alert.dispatch')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.alert_status_permission(p_status text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'acknowledged' THEN 'alert.acknowledge'
+    WHEN 'dispatched' THEN 'alert.dispatch'
+    WHEN 'en_route' THEN 'alert.dispatch'
+    WHEN 'on_scene' THEN 'alert.dispatch'
+    WHEN 'resolved' THEN 'alert.resolve'
+    WHEN 'false_alarm' THEN 'alert.resolve'
+    WHEN 'cancelled' THEN 'alert.resolve'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_alert_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1 FROM alert_status_transitions
+    WHERE from_status = OLD.status
+    AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Alert cannot move from % to %', OLD.status, NEW.status
+      USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER alerts_enforce_transition
+  BEFORE UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_alert_transition();
+
+-- Enable RLS
+ALTER TABLE alert_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read alert transitions"
+  ON alert_status_transitions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Alerts table
+DROP POLICY IF EXISTS "Operators can update alerts" ON alerts;
+
+CREATE POLICY "Operators can update alerts"
+  ON alerts
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (
+      has_permission('alert.acknowledge') OR
+      has_permission('alert.dispatch') OR
+      has_permission('alert.resolve')
+    ) AND
+    in_organization(organization_id)
+  )
+  WITH CHECK (
+    in_organization(organization_id) AND
+    (alert_status_permission(status) IS NULL OR has_permission(alert_status_permission(status)))
+  );
@@ -0,0 +1,188 @@
+/*
+  # Alert event history
+
+  1. New Tables
+    - `alert_events`
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid, foreign key)
+      - `organization_id` (uuid, copied from the alert)
+      - `event_type` (text, one of 'created', 'status_changed')
+      - `from_status` (text)
+      - `to_status` (text)
+      - `actor_id` (uuid, null for service role and scheduled jobs)
+      - `note` (text, optional note entered with the transition)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `alerts` gains `acknowledged_at`, `acknowledged_by`, `dispatched_at`, `dispatched_by`,
+      `en_route_at`, `on_scene_at`, `resolved_at` and `resolved_by`. `resolved_*` is stamped
+      for every closing status (resolved, false alarm, cancelled)
+    - `user_roles.display_name` (text) is shown to colleagues instead of an email address
+
+  3. Functions
+    - `stamp_alert_status()` trigger fills in the stage timestamps and actors
+    - `record_alert_event()` trigger writes an `alert_events` row on insert and on every
+      status change
+    - `transition_alert(alert_id, status, note)` changes status with an optional note;
+      it runs as the caller so the alerts RLS policies still apply
+    - `list_staff()` returns id, name and role of every staff member in the caller's
+      organisation so timelines can show who did what
+
+  4. Security
+    - Enable RLS on `alert_events`, readable by staff who can view the organisation's
+      alerts and by the client the alert belongs to, except for duress alerts
+    - No insert, update or delete policies; rows are only written by the trigger
+*/
+
+-- Create alert_events table
+CREATE TABLE IF NOT EXISTS alert_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE RESTRICT,
+  event_type text NOT NULL CHECK (event_type IN ('created', 'status_changed')),
+  from_status text,
+  to_status text,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_events_alert_id ON alert_events(alert_id, created_at);
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS acknowledged_at timestamptz;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS acknowledged_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS dispatched_at timestamptz;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS dispatched_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS en_route_at timestamptz;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS on_scene_at timestamptz;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE user_roles ADD COLUMN IF NOT EXISTS display_name text;
+
+-- Stamp the time and actor of each stage
+CREATE OR REPLACE FUNCTION public.stamp_alert_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'acknowledged' THEN
+      NEW.acknowledged_at := now();
+      NEW.acknowledged_by := auth.uid();
+    WHEN 'dispatched' THEN
+      NEW.dispatched_at := now();
+      NEW.dispatched_by := auth.uid();
+    WHEN 'en_route' THEN
+      NEW.en_route_at := now();
+    WHEN 'on_scene' THEN
+      NEW.on_scene_at := now();
+    WHEN 'resolved', 'false_alarm', 'cancelled' THEN
+      NEW.resolved_at := now();
+      NEW.resolved_by := auth.uid();
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER alerts_stamp_status
+  BEFORE UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_alert_status();
+
+-- transition_alert passes its note through a transaction-local setting
+CREATE OR REPLACE FUNCTION public.record_alert_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO alert_events (alert_id, organization_id, event_type, to_status, actor_id, note)
+    VALUES (NEW.id, NEW.organization_id, 'created', NEW.status, auth.uid(), NEW.message);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO alert_events (alert_id, organization_id, event_type, from_status, to_status, actor_id, note)
+    VALUES (
+      NEW.id,
+      NEW.organization_id,
+      'status_changed',
+      OLD.status,
+      NEW.status,
+      auth.uid(),
+      nullif(current_setting('securealert.transition_note', true), '')
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER alerts_record_event
+  AFTER INSERT OR UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_alert_event();
+
+CREATE OR REPLACE FUNCTION public.transition_alert(p_alert_id uuid, p_status text, p_note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('securealert.transition_note', coalesce(trim(p_note), ''), true);
+
+  UPDATE alerts
+  SET status = p_status, updated_at = now()
+  WHERE id = p_alert_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('securealert.transition_note', '', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_staff()
+RETURNS TABLE (user_id uuid, name text, role text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_roles.user_id, coalesce(user_roles.display_name, users.email), user_roles.role
+  FROM user_roles
+  JOIN auth.users AS users ON users.id = user_roles.user_id
+  WHERE is_staff()
+  AND user_roles.role <> 'client'
+  AND (user_roles.organization_id = current_organization_id() OR is_super_admin());
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_alert(uuid, text, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.list_staff() FROM anon;
+
+-- Enable RLS
+ALTER TABLE alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff and clients can read alert events"
+  ON alert_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    (has_permission('alert.view') AND in_organization(organization_id)) OR
+    EXISTS (
+      SELECT 1 FROM alerts
+      WHERE alerts.id = alert_events.alert_id
+      AND alerts.client_id = auth.uid()
+      AND NOT alerts.duress
+    )
+  );
@@ -0,0 +1,153 @@
+/*
+  # Automatic escalation of unacknowledged alerts
+
+  1. New Tables
+    - `escalation_rules`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, foreign key)
+      - `alert_type` (text, 'panic', 'accident' or 'assistance')
+      - `level` (integer, 1 for the first escalation)
+      - `delay_seconds` (integer, time since the alert was raised)
+      - `action` (text, 'notify_operators' or 'page_supervisor')
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `alerts.escalation_level` (integer, default 0) is the last escalation applied
+    - `alert_events` gains a `details` jsonb column and an 'escalated' event type, so
+      escalations show up in the alert history
+
+  3. Functions
+    - `seed_escalation_rules(organization_id)` inserts the default rules; runs for
+      every new organisation
+    - `escalate_alerts()` applies every rule that is due to alerts still `active`;
+      scheduled with pg_cron every 10 seconds
+
+  4. Security
+    - Enable RLS on `escalation_rules`, readable by staff of the organisation and
+      managed with the new `escalation.manage` permission
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Create escalation_rules table
+CREATE TABLE IF NOT EXISTS escalation_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  alert_type text NOT NULL CHECK (alert_type IN ('panic', 'accident', 'assistance')),
+  level integer NOT NULL CHECK (level > 0),
+  delay_seconds integer NOT NULL CHECK (delay_seconds > 0),
+  action text NOT NULL CHECK (action IN ('notify_operators', 'page_supervisor')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, alert_type, level)
+);
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS escalation_level integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_active_escalation ON alerts(created_at) WHERE status = 'active';
+
+ALTER TABLE alert_events ADD COLUMN IF NOT EXISTS details jsonb;
+ALTER TABLE alert_events DROP CONSTRAINT IF EXISTS alert_events_event_type_check;
+ALTER TABLE alert_events ADD CONSTRAINT alert_events_event_type_check
+  CHECK (event_type IN ('created', 'status_changed', 'escalated'));
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('supervisor', 'escalation.manage'),
+  ('super_admin', 'escalation.manage')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.seed_escalation_rules(p_organization_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO escalation_rules (organization_id, alert_type, level, delay_seconds, action) VALUES
+    (p_organization_id, 'panic', 1, 30, 'notify_operators'),
+    (p_organization_id, 'panic', 2, 120, 'page_supervisor'),
+    (p_organization_id, 'accident', 1, 60, 'notify_operators'),
+    (p_organization_id, 'accident', 2, 300, 'page_supervisor'),
+    (p_organization_id, 'assistance', 1, 300, 'notify_operators')
+  ON CONFLICT DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION public.seed_organization_escalation_rules()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM seed_escalation_rules(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER organizations_seed_escalation_rules
+  AFTER INSERT ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.seed_organization_escalation_rules();
+
+SELECT seed_escalation_rules(id) FROM organizations;
+
+-- Applies at most one level per alert per run so every level gets its own event
+CREATE OR REPLACE FUNCTION public.escalate_alerts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_due record;
+  v_count integer := 0;
+BEGIN
+  FOR v_due IN
+    SELECT alerts.id AS alert_id, alerts.organization_id, rules.id AS rule_id, rules.level, rules.action
+    FROM alerts
+    JOIN escalation_rules AS rules
+      ON rules.organization_id = alerts.organization_id
+      AND rules.alert_type = alerts.type
+      AND rules.level = alerts.escalation_level + 1
+    WHERE alerts.status = 'active'
+    AND alerts.created_at + make_interval(secs => rules.delay_seconds) <= now()
+    FOR UPDATE OF alerts SKIP LOCKED
+  LOOP
+    UPDATE alerts SET escalation_level = v_due.level WHERE id = v_due.alert_id;
+
+    INSERT INTO alert_events (alert_id, organization_id, event_type, details)
+    VALUES (
+      v_due.alert_id,
+      v_due.organization_id,
+      'escalated',
+      jsonb_build_object('level', v_due.level, 'action', v_due.action, 'rule_id', v_due.rule_id)
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_alerts() FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.seed_escalation_rules(uuid) FROM anon, authenticated;
+
+SELECT cron.schedule('escalate-alerts', '10 seconds', 'SELECT public.escalate_alerts()');
+
+-- Escalations are pushed to open consoles
+ALTER PUBLICATION supabase_realtime ADD TABLE alert_events;
+
+-- Enable RLS
+ALTER TABLE escalation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read escalation rules"
+  ON escalation_rules
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('alert.view') AND in_organization(organization_id));
+
+CREATE POLICY "Supervisors can manage escalation rules"
+  ON escalation_rules
+  FOR ALL
+  TO authenticated
+  USING (has_permission('escalation.manage') AND in_organization(organization_id))
+  WITH CHECK (has_permission('escalation.manage') AND in_organization(organization_id));
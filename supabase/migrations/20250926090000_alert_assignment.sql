@@ -0,0 +1,230 @@
+/*
+  # Alert assignment between operators
+
+  1. Changes
+    - `alerts.assigned_to` (uuid, the operator who owns the alert)
+    - `alerts.assigned_at` (timestamp)
+    - `alert_events` gains an 'assigned' event type; `details` holds the new and
+      previous assignee
+    - Acknowledging an unassigned alert assigns it to the acknowledger
+
+  2. Functions
+    - `claim_alert(alert_id)` takes an unassigned alert; fails if another operator
+      already owns it
+    - `assign_alert(alert_id, user_id)` hands an alert to another operator, or
+      unassigns it when `user_id` is null. Allowed with the new `alert.assign`
+      permission, or by the current owner
+
+  3. Security
+    - Staff can only move an alert owned by someone else through its stages with
+      `alert.assign`
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS assigned_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_assigned_to ON alerts(assigned_to);
+
+ALTER TABLE alert_events DROP CONSTRAINT IF EXISTS alert_events_event_type_check;
+ALTER TABLE alert_events ADD CONSTRAINT alert_events_event_type_check
+  CHECK (event_type IN ('created', 'status_changed', 'escalated', 'assigned'));
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('supervisor', 'alert.assign'),
+  ('super_admin', 'alert.assign')
+ON CONFLICT DO NOTHING;
+
+-- Whoever acknowledges an unclaimed alert owns it
+CREATE OR REPLACE FUNCTION public.stamp_alert_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'acknowledged' THEN
+      NEW.acknowledged_at := now();
+      NEW.acknowledged_by := auth.uid();
+      IF NEW.assigned_to IS NULL AND auth.uid() IS NOT NULL THEN
+        NEW.assigned_to := auth.uid();
+        NEW.assigned_at := now();
+      END IF;
+    WHEN 'dispatched' THEN
+      NEW.dispatched_at := now();
+      NEW.dispatched_by := auth.uid();
+    WHEN 'en_route' THEN
+      NEW.en_route_at := now();
+    WHEN 'on_scene' THEN
+      NEW.on_scene_at := now();
+    WHEN 'resolved', 'false_alarm', 'cancelled' THEN
+      NEW.resolved_at := now();
+      NEW.resolved_by := auth.uid();
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Stops two operators working the same alert
+CREATE OR REPLACE FUNCTION public.guard_alert_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND is_staff()
+    AND OLD.assigned_to IS NOT NULL
+    AND OLD.assigned_to <> auth.uid()
+    AND NOT has_permission('alert.assign')
+  THEN
+    RAISE EXCEPTION 'Alert is assigned to another operator'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER alerts_guard_assignment
+  BEFORE UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_alert_assignment();
+
+CREATE OR REPLACE FUNCTION public.record_alert_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO alert_events (alert_id, organization_id, event_type, to_status, actor_id, note)
+    VALUES (NEW.id, NEW.organization_id, 'created', NEW.status, auth.uid(), NEW.message);
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO alert_events (alert_id, organization_id, event_type, from_status, to_status, actor_id, note)
+    VALUES (
+      NEW.id,
+      NEW.organization_id,
+      'status_changed',
+      OLD.status,
+      NEW.status,
+      auth.uid(),
+      nullif(current_setting('securealert.transition_note', true), '')
+    );
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO alert_events (alert_id, organization_id, event_type, actor_id, details)
+    VALUES (
+      NEW.id,
+      NEW.organization_id,
+      'assigned',
+      auth.uid(),
+      jsonb_build_object('assigned_to', NEW.assigned_to, 'previous', OLD.assigned_to)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS alerts_record_event ON alerts;
+
+CREATE TRIGGER alerts_record_event
+  AFTER INSERT OR UPDATE OF status, assigned_to ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_alert_event();
+
+CREATE OR REPLACE FUNCTION public.claim_alert(p_alert_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('alert.acknowledge') THEN
+    RAISE EXCEPTION 'Your role cannot claim alerts' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE alerts
+  SET assigned_to = auth.uid(), assigned_at = now(), updated_at = now()
+  WHERE id = p_alert_id
+  AND in_organization(organization_id)
+  AND status NOT IN ('resolved', 'false_alarm', 'cancelled')
+  AND (assigned_to IS NULL OR assigned_to = auth.uid());
+
+  IF NOT FOUND THEN
+    IF EXISTS (
+      SELECT 1 FROM alerts
+      WHERE id = p_alert_id
+      AND in_organization(organization_id)
+      AND assigned_to IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Alert has already been claimed by another operator' USING ERRCODE = '55P03';
+    END IF;
+
+    RAISE EXCEPTION 'Alert not found or already closed' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_alert(p_alert_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alert alerts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_alert
+  FROM alerts
+  WHERE id = p_alert_id
+  AND in_organization(organization_id)
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_alert.status IN ('resolved', 'false_alarm', 'cancelled') THEN
+    RAISE EXCEPTION 'Alert not found or already closed' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (
+    has_permission('alert.assign') OR
+    (v_alert.assigned_to = auth.uid() AND has_permission('alert.acknowledge'))
+  ) THEN
+    RAISE EXCEPTION 'Only the assigned operator or a supervisor can reassign this alert'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM user_roles
+    JOIN role_permissions ON role_permissions.role = user_roles.role
+    WHERE user_roles.user_id = p_user_id
+    AND role_permissions.permission = 'alert.acknowledge'
+    AND (user_roles.organization_id = v_alert.organization_id OR user_roles.role = 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'That user cannot handle alerts in this organization' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE alerts
+  SET
+    assigned_to = p_user_id,
+    assigned_at = CASE WHEN p_user_id IS NULL THEN NULL ELSE now() END,
+    updated_at = now()
+  WHERE id = p_alert_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_alert(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.assign_alert(uuid, uuid) FROM anon;
@@ -0,0 +1,78 @@
+/*
+  # Incident notes on alerts
+
+  1. New Tables
+    - `alert_notes`
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid, foreign key to alerts)
+      - `organization_id` (uuid, copied from the alert)
+      - `author_id` (uuid, the operator who wrote the note)
+      - `body` (text)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `alert_notes`
+    - Staff who can view alerts can read the notes of their organisation
+    - The new `alert.note` permission allows adding notes as yourself
+    - Notes are never edited or deleted, so there are no update or delete policies
+
+  3. Realtime
+    - `alert_notes` is added to the realtime publication so open threads update live
+*/
+
+-- Create alert_notes table
+CREATE TABLE IF NOT EXISTS alert_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  body text NOT NULL CHECK (length(trim(body)) BETWEEN 1 AND 2000),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_notes_alert_id ON alert_notes(alert_id, created_at);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('operator', 'alert.note'),
+  ('supervisor', 'alert.note'),
+  ('super_admin', 'alert.note')
+ON CONFLICT DO NOTHING;
+
+-- Notes always belong to the alert's organisation
+CREATE OR REPLACE FUNCTION public.set_alert_note_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT organization_id INTO NEW.organization_id FROM alerts WHERE id = NEW.alert_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER alert_notes_set_organization
+  BEFORE INSERT ON alert_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_alert_note_organization();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE alert_notes;
+
+-- Enable RLS
+ALTER TABLE alert_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read alert notes"
+  ON alert_notes
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('alert.view') AND in_organization(organization_id));
+
+CREATE POLICY "Staff can add alert notes"
+  ON alert_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('alert.note') AND
+    author_id = auth.uid() AND
+    in_organization(organization_id)
+  );
@@ -0,0 +1,97 @@
+/*
+  # Client cancellation with PIN
+
+  1. Changes
+    - `alerts.cancelled_by_client` (boolean) marks alerts called off by the client
+    - `alerts.priority_boost` (integer) is raised by failed cancellation attempts
+    - `alert_events` gains a 'cancel_rejected' event type; `details.reason` is
+      'invalid_pin' or 'duress_pin'
+
+  2. Functions
+    - `client_cancel_alert(alert_id, pin)` lets a client cancel their own alert
+      within 3 minutes of raising it. Returns 'cancelled', 'invalid', 'expired'
+      or 'unset'
+      - the client's PIN cancels the alert
+      - a wrong PIN keeps the alert live and raises its priority
+      - the duress PIN answers 'cancelled' so nothing changes on the client's
+        screen, but keeps the alert live, marks it as duress and raises its
+        priority further
+
+  3. Security
+    - Only the client who raised the alert can call the function on it
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS cancelled_by_client boolean NOT NULL DEFAULT false;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS priority_boost integer NOT NULL DEFAULT 0;
+
+ALTER TABLE alert_events DROP CONSTRAINT IF EXISTS alert_events_event_type_check;
+ALTER TABLE alert_events ADD CONSTRAINT alert_events_event_type_check
+  CHECK (event_type IN ('created', 'status_changed', 'escalated', 'assigned', 'cancel_rejected'));
+
+CREATE OR REPLACE FUNCTION public.client_cancel_alert(p_alert_id uuid, p_pin text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alert alerts%ROWTYPE;
+  v_pin text;
+BEGIN
+  SELECT * INTO v_alert
+  FROM alerts
+  WHERE id = p_alert_id
+  AND client_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_alert.created_at < now() - interval '3 minutes' OR NOT EXISTS (
+    SELECT 1 FROM alert_status_transitions
+    WHERE from_status = v_alert.status
+    AND to_status = 'cancelled'
+  ) THEN
+    RETURN 'expired';
+  END IF;
+
+  v_pin := check_client_pin(p_pin);
+
+  IF v_pin = 'unset' THEN
+    RETURN 'unset';
+  END IF;
+
+  IF v_pin = 'valid' THEN
+    PERFORM set_config('securealert.transition_note', 'Cancelled by client with PIN', true);
+
+    UPDATE alerts
+    SET status = 'cancelled', cancelled_by_client = true, updated_at = now()
+    WHERE id = p_alert_id;
+
+    PERFORM set_config('securealert.transition_note', '', true);
+    RETURN 'cancelled';
+  END IF;
+
+  -- Wrong or duress PIN: the alert stays live and moves up the queue
+  UPDATE alerts
+  SET
+    duress = duress OR v_pin = 'duress',
+    priority_boost = priority_boost + CASE WHEN v_pin = 'duress' THEN 2 ELSE 1 END,
+    updated_at = now()
+  WHERE id = p_alert_id;
+
+  INSERT INTO alert_events (alert_id, organization_id, event_type, actor_id, details)
+  VALUES (
+    p_alert_id,
+    v_alert.organization_id,
+    'cancel_rejected',
+    auth.uid(),
+    jsonb_build_object('reason', CASE WHEN v_pin = 'duress' THEN 'duress_pin' ELSE 'invalid_pin' END)
+  );
+
+  RETURN CASE WHEN v_pin = 'duress' THEN 'cancelled' ELSE 'invalid' END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.client_cancel_alert(uuid, text) FROM anon;
@@ -0,0 +1,62 @@
+/*
+  # Alert priority scoring
+
+  1. New Tables
+    - `priority_settings`
+      - `organization_id` (uuid, primary key, foreign key)
+      - `panic_weight`, `accident_weight`, `assistance_weight` (integer, base score per alert type)
+      - `waiting_weight` (integer, added per minute the alert has waited)
+      - `max_waiting_minutes` (integer, cap on the waiting component)
+      - `medical_weight` (integer, added per medical flag on the client)
+      - `repeat_weight` (integer, added per other alert from the client in the last 24 hours)
+      - `duress_weight` (integer)
+      - `failed_cancel_weight` (integer, multiplied by `alerts.priority_boost`)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - `clients.medical_flags` (text[]) lists conditions responders should know about
+
+  3. Security
+    - Enable RLS on `priority_settings`, readable by staff of the organisation and
+      managed with the new `priority.manage` permission
+    - Organisations without a row use the defaults in src/lib/priority.ts, which
+      match the column defaults here
+*/
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS medical_flags text[] NOT NULL DEFAULT '{}';
+
+-- Create priority_settings table
+CREATE TABLE IF NOT EXISTS priority_settings (
+  organization_id uuid PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  panic_weight integer NOT NULL DEFAULT 100 CHECK (panic_weight >= 0),
+  accident_weight integer NOT NULL DEFAULT 70 CHECK (accident_weight >= 0),
+  assistance_weight integer NOT NULL DEFAULT 30 CHECK (assistance_weight >= 0),
+  waiting_weight integer NOT NULL DEFAULT 2 CHECK (waiting_weight >= 0),
+  max_waiting_minutes integer NOT NULL DEFAULT 30 CHECK (max_waiting_minutes > 0),
+  medical_weight integer NOT NULL DEFAULT 15 CHECK (medical_weight >= 0),
+  repeat_weight integer NOT NULL DEFAULT 10 CHECK (repeat_weight >= 0),
+  duress_weight integer NOT NULL DEFAULT 200 CHECK (duress_weight >= 0),
+  failed_cancel_weight integer NOT NULL DEFAULT 25 CHECK (failed_cancel_weight >= 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('supervisor', 'priority.manage'),
+  ('super_admin', 'priority.manage')
+ON CONFLICT DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE priority_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read priority settings"
+  ON priority_settings
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('alert.view') AND in_organization(organization_id));
+
+CREATE POLICY "Supervisors can manage priority settings"
+  ON priority_settings
+  FOR ALL
+  TO authenticated
+  USING (has_permission('priority.manage') AND in_organization(organization_id))
+  WITH CHECK (has_permission('priority.manage') AND in_organization(organization_id));
@@ -0,0 +1,124 @@
+/*
+  # Fold repeated alert presses into one incident
+
+  1. Changes
+    - `alerts.press_count` (integer, default 1) counts the presses folded into the alert
+    - `alerts.last_pressed_at` (timestamp) is the time of the latest press
+    - `priority_settings.coalesce_window_seconds` (integer, default 120) is how long
+      after the latest press another press from the same client is folded in
+    - `alert_events` gains a 'repeat_press' event type; `details` holds the type
+      pressed, the new press count and the previous type when it was upgraded
+
+  2. Functions
+    - `coalesce_alert_press()` runs before every alert insert. When the client
+      already has an open alert pressed within the window, that alert takes the
+      new location, counts the press and upgrades to the more severe type
+      (panic > accident > assistance), and the new row is skipped
+    - Duress alerts are never folded, in either direction, so a silent alert can
+      not change what the client's screen shows
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS press_count integer NOT NULL DEFAULT 1;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS last_pressed_at timestamptz DEFAULT now();
+
+UPDATE alerts SET last_pressed_at = created_at;
+
+ALTER TABLE priority_settings ADD COLUMN IF NOT EXISTS coalesce_window_seconds integer NOT NULL DEFAULT 120
+  CHECK (coalesce_window_seconds >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_alerts_client_open ON alerts(client_id, last_pressed_at DESC)
+  WHERE status NOT IN ('resolved', 'false_alarm', 'cancelled');
+
+ALTER TABLE alert_events DROP CONSTRAINT IF EXISTS alert_events_event_type_check;
+ALTER TABLE alert_events ADD CONSTRAINT alert_events_event_type_check
+  CHECK (event_type IN ('created', 'status_changed', 'escalated', 'assigned', 'cancel_rejected', 'repeat_press'));
+
+CREATE OR REPLACE FUNCTION public.alert_type_severity(p_type text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_type
+    WHEN 'panic' THEN 3
+    WHEN 'accident' THEN 2
+    WHEN 'assistance' THEN 1
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.coalesce_alert_press()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window integer;
+  v_open alerts%ROWTYPE;
+BEGIN
+  IF NEW.duress THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT coalesce(settings.coalesce_window_seconds, 120) INTO v_window
+  FROM clients
+  LEFT JOIN priority_settings AS settings ON settings.organization_id = clients.organization_id
+  WHERE clients.id = NEW.client_id;
+
+  IF coalesce(v_window, 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_open
+  FROM alerts
+  WHERE client_id = NEW.client_id
+  AND NOT duress
+  AND status NOT IN ('resolved', 'false_alarm', 'cancelled')
+  AND last_pressed_at >= now() - make_interval(secs => v_window)
+  ORDER BY last_pressed_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE alerts
+  SET
+    press_count = press_count + 1,
+    last_pressed_at = now(),
+    location_lat = NEW.location_lat,
+    location_lng = NEW.location_lng,
+    type = CASE
+      WHEN alert_type_severity(NEW.type) > alert_type_severity(v_open.type) THEN NEW.type
+      ELSE v_open.type
+    END,
+    message = coalesce(NEW.message, v_open.message),
+    updated_at = now()
+  WHERE id = v_open.id;
+
+  INSERT INTO alert_events (alert_id, organization_id, event_type, actor_id, details)
+  VALUES (
+    v_open.id,
+    v_open.organization_id,
+    'repeat_press',
+    auth.uid(),
+    jsonb_build_object(
+      'type', NEW.type,
+      'press_count', v_open.press_count + 1,
+      'upgraded_from', CASE
+        WHEN alert_type_severity(NEW.type) > alert_type_severity(v_open.type) THEN v_open.type
+      END
+    )
+  );
+
+  -- The press is folded into the open alert instead of creating a row
+  RETURN NULL;
+END;
+$$;
+
+-- Named to fire before alerts_set_organization; triggers run in name order
+CREATE TRIGGER alerts_coalesce_press
+  BEFORE INSERT ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.coalesce_alert_press();
@@ -0,0 +1,208 @@
+/*
+  # Resolution codes, wrap-up and reopening
+
+  1. Changes
+    - `alerts.resolution_code` (text) records why the alert was closed
+    - `alerts.resolution_summary` (text) is the operator's wrap-up
+    - Closed alerts can be reopened into 'active' with the `alert.resolve`
+      permission; reopening clears the closing stamps and wrap-up
+    - `alerts.reopened_at` (timestamp) records the last reopening. A reopened
+      alert starts escalating again from level 0, timed from that moment
+
+  2. Functions
+    - `close_alert(alert_id, status, resolution_code, summary)` closes an alert and
+      records its wrap-up in one step; the summary is also the event note
+    - `require_alert_wrap_up()` trigger rejects staff closing an alert without a
+      resolution code and summary, and reopening one without a reason. Clients
+      cancelling their own alert with their PIN are exempt
+    - `escalate_alerts()` times escalation from `reopened_at` when the alert
+      has been reopened, and from `created_at` otherwise
+
+  The codes mirror `RESOLUTION_CODES` in `src/lib/resolution.ts`.
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS resolution_code text CHECK (resolution_code IN (
+  'genuine_emergency', 'police_attended', 'ambulance_attended', 'guard_attended',
+  'resolved_by_phone', 'no_response', 'false_alarm', 'accidental_press', 'test', 'duplicate'
+));
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS resolution_summary text;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS reopened_at timestamptz;
+
+INSERT INTO alert_status_transitions (from_status, to_status) VALUES
+  ('resolved', 'active'),
+  ('false_alarm', 'active'),
+  ('cancelled', 'active')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.alert_status_permission(p_status text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'active' THEN 'alert.resolve'
+    WHEN 'acknowledged' THEN 'alert.acknowledge'
+    WHEN 'dispatched' THEN 'alert.dispatch'
+    WHEN 'en_route' THEN 'alert.dispatch'
+    WHEN 'on_scene' THEN 'alert.dispatch'
+    WHEN 'resolved' THEN 'alert.resolve'
+    WHEN 'false_alarm' THEN 'alert.resolve'
+    WHEN 'cancelled' THEN 'alert.resolve'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.require_alert_wrap_up()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NOT is_staff() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('resolved', 'false_alarm', 'cancelled')
+    AND (NEW.resolution_code IS NULL OR coalesce(trim(NEW.resolution_summary), '') = '')
+  THEN
+    RAISE EXCEPTION 'A resolution code and summary are required to close an alert'
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.status = 'active' AND OLD.status IN ('resolved', 'false_alarm', 'cancelled')
+    AND coalesce(current_setting('securealert.transition_note', true), '') = ''
+  THEN
+    RAISE EXCEPTION 'A reason is required to reopen an alert' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER alerts_require_wrap_up
+  BEFORE UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_alert_wrap_up();
+
+-- Reopening starts the closing stage and escalation over
+CREATE OR REPLACE FUNCTION public.stamp_alert_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'active' THEN
+      NEW.resolved_at := NULL;
+      NEW.resolved_by := NULL;
+      NEW.resolution_code := NULL;
+      NEW.resolution_summary := NULL;
+      NEW.cancelled_by_client := false;
+      IF OLD.status IN ('resolved', 'false_alarm', 'cancelled') THEN
+        NEW.reopened_at := now();
+        NEW.escalation_level := 0;
+      END IF;
+    WHEN 'acknowledged' THEN
+      NEW.acknowledged_at := now();
+      NEW.acknowledged_by := auth.uid();
+      IF NEW.assigned_to IS NULL AND auth.uid() IS NOT NULL THEN
+        NEW.assigned_to := auth.uid();
+        NEW.assigned_at := now();
+      END IF;
+    WHEN 'dispatched' THEN
+      NEW.dispatched_at := now();
+      NEW.dispatched_by := auth.uid();
+    WHEN 'en_route' THEN
+      NEW.en_route_at := now();
+    WHEN 'on_scene' THEN
+      NEW.on_scene_at := now();
+    WHEN 'resolved', 'false_alarm', 'cancelled' THEN
+      NEW.resolved_at := now();
+      NEW.resolved_by := auth.uid();
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.escalate_alerts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_due record;
+  v_count integer := 0;
+BEGIN
+  FOR v_due IN
+    SELECT alerts.id AS alert_id, alerts.organization_id, rules.id AS rule_id, rules.level, rules.action
+    FROM alerts
+    JOIN escalation_rules AS rules
+      ON rules.organization_id = alerts.organization_id
+      AND rules.alert_type = alerts.type
+      AND rules.level = alerts.escalation_level + 1
+    WHERE alerts.status = 'active'
+    AND coalesce(alerts.reopened_at, alerts.created_at) + make_interval(secs => rules.delay_seconds) <= now()
+    FOR UPDATE OF alerts SKIP LOCKED
+  LOOP
+    UPDATE alerts SET escalation_level = v_due.level WHERE id = v_due.alert_id;
+
+    INSERT INTO alert_events (alert_id, organization_id, event_type, details)
+    VALUES (
+      v_due.alert_id,
+      v_due.organization_id,
+      'escalated',
+      jsonb_build_object('level', v_due.level, 'action', v_due.action, 'rule_id', v_due.rule_id)
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_alerts() FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.close_alert(
+  p_alert_id uuid,
+  p_status text,
+  p_resolution_code text,
+  p_summary text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_status NOT IN ('resolved', 'false_alarm', 'cancelled') THEN
+    RAISE EXCEPTION 'Alerts can only be closed as resolved, false alarm or cancelled'
+      USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('securealert.transition_note', coalesce(trim(p_summary), ''), true);
+
+  UPDATE alerts
+  SET
+    status = p_status,
+    resolution_code = p_resolution_code,
+    resolution_summary = trim(p_summary),
+    updated_at = now()
+  WHERE id = p_alert_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('securealert.transition_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_alert(uuid, text, text, text) FROM anon;
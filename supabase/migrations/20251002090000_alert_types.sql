@@ -0,0 +1,253 @@
+/*
+  # Configurable alert types
+
+  1. New Tables
+    - `alert_types`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, foreign key)
+      - `key` (text, stored in `alerts.type`; unique per organisation and never changed)
+      - `label`, `description` (text, shown on the client's button)
+      - `icon`, `color` (text, keys of ALERT_TYPE_ICONS and ALERT_TYPE_COLORS in
+        src/lib/alertTypes.ts; unknown values fall back to the defaults there)
+      - `default_priority` (integer, base priority score of alerts of this type)
+      - `sop` (text, standard operating procedure shown to operators)
+      - `sort_order` (integer), `active` (boolean)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Changes
+    - `alerts.type` and `escalation_rules.alert_type` reference `alert_types`
+      instead of checking a fixed list
+    - `priority_settings.panic_weight`, `accident_weight` and `assistance_weight`
+      move into `alert_types.default_priority` and are dropped
+    - Every organisation gets panic, accident and assistance types; new
+      organisations get them on creation
+    - Only active types can be raised
+    - Folding repeat presses upgrades to the type with the higher default priority
+
+  3. Security
+    - Enable RLS on `alert_types`, readable by everyone in the organisation
+      (clients need them for their buttons) and managed with the new
+      `alert_type.manage` permission
+    - Types are deactivated rather than deleted, since alerts keep their type.
+      Panic can not be deactivated: duress PINs always raise a panic alert
+*/
+
+-- Create alert_types table
+CREATE TABLE IF NOT EXISTS alert_types (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  key text NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label text NOT NULL CHECK (trim(label) <> ''),
+  description text NOT NULL DEFAULT '',
+  icon text NOT NULL DEFAULT 'alert-triangle',
+  color text NOT NULL DEFAULT 'red',
+  default_priority integer NOT NULL DEFAULT 50 CHECK (default_priority >= 0),
+  sop text NOT NULL DEFAULT '',
+  sort_order integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, key),
+  CHECK (key <> 'panic' OR active)
+);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('supervisor', 'alert_type.manage'),
+  ('super_admin', 'alert_type.manage')
+ON CONFLICT DO NOTHING;
+
+-- Keeps an organisation's existing type weights as the default priorities
+CREATE OR REPLACE FUNCTION public.seed_alert_types(p_organization_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO alert_types (organization_id, key, label, description, icon, color, default_priority, sort_order)
+  SELECT p_organization_id, defaults.key, defaults.label, defaults.description, defaults.icon, defaults.color,
+    defaults.default_priority, defaults.sort_order
+  FROM (VALUES
+    ('panic', 'Panic', 'Immediate emergency assistance needed', 'alert-triangle', 'red', 100, 1),
+    ('accident', 'Accident', 'Medical or vehicle accident', 'car', 'orange', 70, 2),
+    ('assistance', 'Assistance', 'Non-emergency help needed', 'help-circle', 'blue', 30, 3)
+  ) AS defaults (key, label, description, icon, color, default_priority, sort_order)
+  ON CONFLICT DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION public.seed_organization_alert_types()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM seed_alert_types(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire before organizations_seed_escalation_rules, whose rules reference the types
+CREATE TRIGGER organizations_seed_alert_types
+  AFTER INSERT ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.seed_organization_alert_types();
+
+SELECT seed_alert_types(id) FROM organizations;
+
+UPDATE alert_types
+SET default_priority = CASE alert_types.key
+  WHEN 'panic' THEN settings.panic_weight
+  WHEN 'accident' THEN settings.accident_weight
+  WHEN 'assistance' THEN settings.assistance_weight
+END
+FROM priority_settings AS settings
+WHERE settings.organization_id = alert_types.organization_id
+AND alert_types.key IN ('panic', 'accident', 'assistance');
+
+ALTER TABLE priority_settings DROP COLUMN IF EXISTS panic_weight;
+ALTER TABLE priority_settings DROP COLUMN IF EXISTS accident_weight;
+ALTER TABLE priority_settings DROP COLUMN IF EXISTS assistance_weight;
+
+-- Types now come from alert_types
+ALTER TABLE alerts DROP CONSTRAINT IF EXISTS alerts_type_check;
+ALTER TABLE alerts ADD CONSTRAINT alerts_type_fkey
+  FOREIGN KEY (organization_id, type) REFERENCES alert_types(organization_id, key);
+
+ALTER TABLE escalation_rules DROP CONSTRAINT IF EXISTS escalation_rules_alert_type_check;
+ALTER TABLE escalation_rules ADD CONSTRAINT escalation_rules_alert_type_fkey
+  FOREIGN KEY (organization_id, alert_type) REFERENCES alert_types(organization_id, key) ON DELETE CASCADE;
+
+CREATE OR REPLACE FUNCTION public.require_active_alert_type()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM clients
+    JOIN alert_types ON alert_types.organization_id = clients.organization_id
+    WHERE clients.id = NEW.client_id
+    AND alert_types.key = NEW.type
+    AND alert_types.active
+  ) THEN
+    RAISE EXCEPTION 'Unknown or inactive alert type: %', NEW.type USING ERRCODE = '23503';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire after alerts_coalesce_press, so presses folded into an open alert skip it
+CREATE TRIGGER alerts_require_active_type
+  BEFORE INSERT ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_active_alert_type();
+
+-- Severity is now the type's default priority within the organisation
+DROP FUNCTION IF EXISTS public.alert_type_severity(text);
+
+CREATE OR REPLACE FUNCTION public.alert_type_severity(p_organization_id uuid, p_type text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT default_priority FROM alert_types WHERE organization_id = p_organization_id AND key = p_type),
+    0
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.coalesce_alert_press()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window integer;
+  v_open alerts%ROWTYPE;
+  v_upgrade boolean;
+BEGIN
+  IF NEW.duress THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT coalesce(settings.coalesce_window_seconds, 120) INTO v_window
+  FROM clients
+  LEFT JOIN priority_settings AS settings ON settings.organization_id = clients.organization_id
+  WHERE clients.id = NEW.client_id;
+
+  IF coalesce(v_window, 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_open
+  FROM alerts
+  WHERE client_id = NEW.client_id
+  AND NOT duress
+  AND status NOT IN ('resolved', 'false_alarm', 'cancelled')
+  AND last_pressed_at >= now() - make_interval(secs => v_window)
+  ORDER BY last_pressed_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  v_upgrade := alert_type_severity(v_open.organization_id, NEW.type)
+    > alert_type_severity(v_open.organization_id, v_open.type);
+
+  UPDATE alerts
+  SET
+    press_count = press_count + 1,
+    last_pressed_at = now(),
+    location_lat = NEW.location_lat,
+    location_lng = NEW.location_lng,
+    type = CASE WHEN v_upgrade THEN NEW.type ELSE v_open.type END,
+    message = coalesce(NEW.message, v_open.message),
+    updated_at = now()
+  WHERE id = v_open.id;
+
+  INSERT INTO alert_events (alert_id, organization_id, event_type, actor_id, details)
+  VALUES (
+    v_open.id,
+    v_open.organization_id,
+    'repeat_press',
+    auth.uid(),
+    jsonb_build_object(
+      'type', NEW.type,
+      'press_count', v_open.press_count + 1,
+      'upgraded_from', CASE WHEN v_upgrade THEN v_open.type END
+    )
+  );
+
+  -- The press is folded into the open alert instead of creating a row
+  RETURN NULL;
+END;
+$$;
+
+-- Enable RLS
+ALTER TABLE alert_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organisation members can read alert types"
+  ON alert_types
+  FOR SELECT
+  TO authenticated
+  USING (in_organization(organization_id));
+
+CREATE POLICY "Supervisors can add alert types"
+  ON alert_types
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('alert_type.manage') AND in_organization(organization_id));
+
+CREATE POLICY "Supervisors can update alert types"
+  ON alert_types
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('alert_type.manage') AND in_organization(organization_id))
+  WITH CHECK (has_permission('alert_type.manage') AND in_organization(organization_id));
@@ -0,0 +1,137 @@
+/*
+  # Photo and audio evidence on alerts
+
+  1. New Tables
+    - `alert_media`
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid, foreign key to alerts)
+      - `organization_id` (uuid, copied from the alert)
+      - `uploaded_by` (uuid, the client who captured it)
+      - `kind` (text, 'photo' or 'audio')
+      - `storage_path` (text, object path in the `alert-media` bucket)
+      - `mime_type` (text)
+      - `size_bytes` (integer)
+      - `duration_seconds` (numeric, voice notes only)
+      - `created_at` (timestamp)
+
+  2. Storage
+    - Private `alert-media` bucket; objects live under `<alert id>/`
+    - Photos are capped at 10 MB and voice notes at 60 seconds by the client;
+      the bucket itself rejects anything over 15 MB
+
+  3. Security
+    - Enable RLS on `alert_media`
+    - Clients attach media to, and read the media of, their own alerts
+    - Staff who can view alerts read the media of their organisation
+    - The same rules apply to the storage objects, keyed by the alert id folder
+    - Media is evidence, so there are no update or delete policies
+
+  4. Realtime
+    - `alert_media` is added to the realtime publication so consoles show
+      uploads as they arrive
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('alert-media', 'alert-media', false, 15728640, ARRAY['image/*', 'audio/*'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Create alert_media table
+CREATE TABLE IF NOT EXISTS alert_media (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  uploaded_by uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  kind text NOT NULL CHECK (kind IN ('photo', 'audio')),
+  storage_path text NOT NULL UNIQUE,
+  mime_type text NOT NULL,
+  size_bytes integer NOT NULL CHECK (size_bytes > 0),
+  duration_seconds numeric,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_media_alert_id ON alert_media(alert_id, created_at);
+
+-- Media always belongs to the alert's organisation
+CREATE OR REPLACE FUNCTION public.set_alert_media_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT organization_id INTO NEW.organization_id FROM alerts WHERE id = NEW.alert_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER alert_media_set_organization
+  BEFORE INSERT ON alert_media
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_alert_media_organization();
+
+-- Whether the signed-in user may see the media of an alert
+CREATE OR REPLACE FUNCTION public.can_view_alert_media(p_alert_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM alerts
+    WHERE id = p_alert_id
+    AND (
+      client_id = auth.uid()
+      OR (has_permission('alert.view') AND in_organization(organization_id))
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_view_alert_media(uuid) FROM anon;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE alert_media;
+
+-- Enable RLS
+ALTER TABLE alert_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients and staff can read alert media"
+  ON alert_media
+  FOR SELECT
+  TO authenticated
+  USING (can_view_alert_media(alert_id));
+
+CREATE POLICY "Clients can attach media to their own alerts"
+  ON alert_media
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid() AND
+    storage_path LIKE alert_id::text || '/%' AND
+    EXISTS (SELECT 1 FROM alerts WHERE alerts.id = alert_id AND alerts.client_id = auth.uid())
+  );
+
+CREATE POLICY "Clients can upload media for their own alerts"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'alert-media' AND
+    EXISTS (
+      SELECT 1 FROM public.alerts
+      WHERE alerts.id::text = (storage.foldername(name))[1]
+      AND alerts.client_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Clients and staff can read alert media files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'alert-media' AND
+    EXISTS (
+      SELECT 1 FROM public.alerts
+      WHERE alerts.id::text = (storage.foldername(name))[1]
+      AND public.can_view_alert_media(alerts.id)
+    )
+  );
@@ -0,0 +1,163 @@
+/*
+  # Live chat between the client and the control room
+
+  1. New Tables
+    - `alert_messages`
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid, foreign key to alerts)
+      - `organization_id` (uuid, copied from the alert)
+      - `sender_id` (uuid, the client or operator who sent it)
+      - `sender_role` (text, 'client' or 'staff'; set from the sender's role)
+      - `body` (text)
+      - `read_at` (timestamp, when the other side first saw it)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `mark_alert_messages_read(alert_id)` stamps `read_at` on the messages the
+      caller received, which is what the read receipts show
+
+  3. Security
+    - Enable RLS on `alert_messages`
+    - Clients read and write the chat of their own alerts; staff who can view
+      alerts read it, and the new `alert.message` permission lets them reply
+    - Messages can only be sent while the alert is open, so the chat closes when
+      the alert does and stays on the incident record
+    - Duress alerts have no chat: the client must not learn the alert exists
+    - Messages are never edited or deleted; `read_at` only changes through
+      `mark_alert_messages_read`
+
+  4. Realtime
+    - `alert_messages` is added to the realtime publication for live chat and
+      receipts
+*/
+
+-- Create alert_messages table
+CREATE TABLE IF NOT EXISTS alert_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  sender_role text NOT NULL CHECK (sender_role IN ('client', 'staff')),
+  body text NOT NULL CHECK (length(trim(body)) BETWEEN 1 AND 1000),
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_messages_alert_id ON alert_messages(alert_id, created_at);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('operator', 'alert.message'),
+  ('supervisor', 'alert.message'),
+  ('super_admin', 'alert.message')
+ON CONFLICT DO NOTHING;
+
+-- Messages belong to the alert's organisation and are tagged with the sender's side
+CREATE OR REPLACE FUNCTION public.set_alert_message_defaults()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT organization_id INTO NEW.organization_id FROM alerts WHERE id = NEW.alert_id;
+  NEW.sender_role := CASE WHEN is_staff() THEN 'staff' ELSE 'client' END;
+  NEW.read_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER alert_messages_set_defaults
+  BEFORE INSERT ON alert_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_alert_message_defaults();
+
+CREATE OR REPLACE FUNCTION public.mark_alert_messages_read(p_alert_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alert alerts%ROWTYPE;
+  v_reader_role text;
+BEGIN
+  SELECT * INTO v_alert FROM alerts WHERE id = p_alert_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_alert.client_id = auth.uid() THEN
+    v_reader_role := 'client';
+  ELSIF has_permission('alert.view') AND in_organization(v_alert.organization_id) THEN
+    v_reader_role := 'staff';
+  ELSE
+    RAISE EXCEPTION 'Not allowed to read this chat' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE alert_messages
+  SET read_at = now()
+  WHERE alert_id = p_alert_id
+  AND sender_role <> v_reader_role
+  AND read_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_alert_messages_read(uuid) FROM anon;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE alert_messages;
+
+-- Enable RLS
+ALTER TABLE alert_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can read the chat of their own alerts"
+  ON alert_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM alerts
+      WHERE alerts.id = alert_id
+      AND alerts.client_id = auth.uid()
+      AND NOT alerts.duress
+    )
+  );
+
+CREATE POLICY "Staff can read alert chats"
+  ON alert_messages
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('alert.view') AND in_organization(organization_id));
+
+CREATE POLICY "Clients can message about their own open alerts"
+  ON alert_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid() AND
+    sender_role = 'client' AND
+    EXISTS (
+      SELECT 1 FROM alerts
+      WHERE alerts.id = alert_id
+      AND alerts.client_id = auth.uid()
+      AND NOT alerts.duress
+      AND alerts.status NOT IN ('resolved', 'false_alarm', 'cancelled')
+    )
+  );
+
+CREATE POLICY "Staff can reply on open alerts"
+  ON alert_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid() AND
+    sender_role = 'staff' AND
+    has_permission('alert.message') AND
+    in_organization(organization_id) AND
+    EXISTS (
+      SELECT 1 FROM alerts
+      WHERE alerts.id = alert_id
+      AND NOT alerts.duress
+      AND alerts.status NOT IN ('resolved', 'false_alarm', 'cancelled')
+    )
+  );
@@ -0,0 +1,34 @@
+/*
+  # Who is handling a client's alert
+
+  1. Functions
+    - `alert_responder_name(alert_id)` returns the first name of the operator
+      handling the alert: whoever it is assigned to, otherwise whoever
+      dispatched or acknowledged it. Returns null while nobody has picked the
+      alert up, or when the operator has no display name
+
+  2. Security
+    - Clients cannot list staff, so the function only answers for the client's
+      own alerts (never duress alerts) and for staff who can view the alert
+    - Only the first word of the display name is returned; email addresses are
+      never used as a fallback
+*/
+
+CREATE OR REPLACE FUNCTION public.alert_responder_name(p_alert_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT nullif(split_part(trim(user_roles.display_name), ' ', 1), '')
+  FROM alerts
+  JOIN user_roles ON user_roles.user_id = coalesce(alerts.assigned_to, alerts.dispatched_by, alerts.acknowledged_by)
+  WHERE alerts.id = p_alert_id
+  AND (
+    (alerts.client_id = auth.uid() AND NOT alerts.duress) OR
+    (has_permission('alert.view') AND in_organization(alerts.organization_id))
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.alert_responder_name(uuid) FROM anon;
@@ -0,0 +1,67 @@
+/*
+  # Alarms for new alerts
+
+  1. Changes
+    - `alert_types.alarm_sound` (text) picks the looping alarm played on the
+      console when an alert of the type comes in: 'siren', 'pulse', 'chime' or
+      'beep'. Panic defaults to the siren so it stands out from the rest
+
+  2. New Tables
+    - `operator_alarm_settings`
+      - `user_id` (uuid, primary key, the operator)
+      - `muted` (boolean, silences every alarm sound)
+      - `volume` (numeric, 0 to 1)
+      - `muted_types` (text[], alert type keys that do not sound)
+      - `desktop_notifications` (boolean)
+      - `updated_at` (timestamp)
+    - Operators without a row get the defaults: sound on, full volume,
+      notifications on
+
+  3. Security
+    - Enable RLS on `operator_alarm_settings`
+    - Staff read and write only their own settings
+*/
+
+ALTER TABLE alert_types ADD COLUMN IF NOT EXISTS alarm_sound text NOT NULL DEFAULT 'beep'
+  CHECK (alarm_sound IN ('siren', 'pulse', 'chime', 'beep'));
+
+UPDATE alert_types SET alarm_sound = 'siren' WHERE key = 'panic';
+UPDATE alert_types SET alarm_sound = 'pulse' WHERE key = 'accident';
+UPDATE alert_types SET alarm_sound = 'chime' WHERE key = 'assistance';
+
+CREATE OR REPLACE FUNCTION public.seed_alert_types(p_organization_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO alert_types (organization_id, key, label, description, icon, color, default_priority, alarm_sound, sort_order)
+  SELECT p_organization_id, defaults.key, defaults.label, defaults.description, defaults.icon, defaults.color,
+    defaults.default_priority, defaults.alarm_sound, defaults.sort_order
+  FROM (VALUES
+    ('panic', 'Panic', 'Immediate emergency assistance needed', 'alert-triangle', 'red', 100, 'siren', 1),
+    ('accident', 'Accident', 'Medical or vehicle accident', 'car', 'orange', 70, 'pulse', 2),
+    ('assistance', 'Assistance', 'Non-emergency help needed', 'help-circle', 'blue', 30, 'chime', 3)
+  ) AS defaults (key, label, description, icon, color, default_priority, alarm_sound, sort_order)
+  ON CONFLICT DO NOTHING;
+$$;
+
+-- Create operator_alarm_settings table
+CREATE TABLE IF NOT EXISTS operator_alarm_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  muted boolean NOT NULL DEFAULT false,
+  volume numeric(3, 2) NOT NULL DEFAULT 1 CHECK (volume BETWEEN 0 AND 1),
+  muted_types text[] NOT NULL DEFAULT '{}',
+  desktop_notifications boolean NOT NULL DEFAULT true,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE operator_alarm_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can manage their own alarm settings"
+  ON operator_alarm_settings
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid() AND is_staff())
+  WITH CHECK (user_id = auth.uid() AND is_staff());
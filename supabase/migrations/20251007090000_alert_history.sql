@@ -0,0 +1,83 @@
+/*
+  # Searchable incident history
+
+  1. Functions
+    - `search_alerts(...)` returns the alerts matching the history filters,
+      newest first. Every filter is optional:
+      - `p_organization_id`, `p_from` / `p_to` (on `created_at`), `p_type`,
+        `p_status`, `p_client_id`
+      - `p_operator_id` matches whoever was assigned, acknowledged, dispatched
+        or closed the alert
+      - `p_query` is a case-insensitive substring of the alert message, the
+        resolution summary or any of its notes
+    - Called through PostgREST with `count` and `range`, so pages are cut and
+      counted in the database
+
+  2. Indexes
+    - `pg_trgm` trigram indexes on `alerts.message`,
+      `alerts.resolution_summary` and `alert_notes.body` back the text search
+    - Indexes for the type, operator and organisation/date filters, and on
+      `resolved_at` for the recently closed alerts on the dashboard
+
+  3. Security
+    - The function runs as the caller, so the alerts and alert_notes policies
+      decide what can be found
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_organization_created_at ON alerts(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_type ON alerts(type);
+CREATE INDEX IF NOT EXISTS idx_alerts_acknowledged_by ON alerts(acknowledged_by);
+CREATE INDEX IF NOT EXISTS idx_alerts_dispatched_by ON alerts(dispatched_by);
+CREATE INDEX IF NOT EXISTS idx_alerts_resolved_by ON alerts(resolved_by);
+CREATE INDEX IF NOT EXISTS idx_alerts_resolved_at ON alerts(resolved_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_message_trgm ON alerts USING gin (message extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_alerts_resolution_summary_trgm ON alerts USING gin (resolution_summary extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_alert_notes_body_trgm ON alert_notes USING gin (body extensions.gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.search_alerts(
+  p_organization_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_type text DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_client_id uuid DEFAULT NULL,
+  p_operator_id uuid DEFAULT NULL,
+  p_query text DEFAULT NULL
+)
+RETURNS SETOF alerts
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT alerts.*
+  FROM alerts
+  -- The search text is matched literally, not as a LIKE pattern
+  CROSS JOIN (
+    SELECT '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  ) AS search
+  WHERE (p_organization_id IS NULL OR alerts.organization_id = p_organization_id)
+  AND (p_from IS NULL OR alerts.created_at >= p_from)
+  AND (p_to IS NULL OR alerts.created_at < p_to)
+  AND (p_type IS NULL OR alerts.type = p_type)
+  AND (p_status IS NULL OR alerts.status = p_status)
+  AND (p_client_id IS NULL OR alerts.client_id = p_client_id)
+  AND (
+    p_operator_id IS NULL OR
+    p_operator_id IN (alerts.assigned_to, alerts.acknowledged_by, alerts.dispatched_by, alerts.resolved_by)
+  )
+  AND (
+    coalesce(trim(p_query), '') = '' OR
+    alerts.message ILIKE search.pattern OR
+    alerts.resolution_summary ILIKE search.pattern OR
+    EXISTS (
+      SELECT 1 FROM alert_notes
+      WHERE alert_notes.alert_id = alerts.id
+      AND alert_notes.body ILIKE search.pattern
+    )
+  )
+  ORDER BY alerts.created_at DESC, alerts.id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_alerts(uuid, timestamptz, timestamptz, text, text, uuid, uuid, text) FROM anon;
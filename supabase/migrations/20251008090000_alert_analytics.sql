@@ -0,0 +1,198 @@
+/*
+  # Operational analytics
+
+  1. Functions
+    Every function takes an optional `p_organization_id` (null for all the
+    caller can see) and a `p_from` / `p_to` range on `alerts.created_at`, and
+    aggregates in the database so the console never loads the alerts
+    themselves:
+    - `alert_counts_by_type(..., p_bucket, p_time_zone)` counts alerts per type
+      per 'day', 'week' or 'month', cut in the operator's time zone
+    - `alert_heatmap(..., p_time_zone)` counts alerts per ISO weekday (1 is
+      Monday) and hour of the day
+    - `alert_response_times(...)` returns the median and 90th percentile time
+      from an alert being raised to it being acknowledged, and to it being
+      closed as resolved, in seconds
+    - `client_false_alarm_rates(...)` returns, per client, how many alerts were
+      raised and how many of them were closed as false alarms
+    - `operator_workload(...)` returns, per staff member, how many alerts they
+      acknowledged, dispatched, closed and were assigned, with their median
+      time to acknowledge. Alerts the client cancelled with their PIN are not
+      counted as closed by anyone
+
+  2. Permissions
+    - New `analytics.view` permission for supervisors, auditors and super
+      admins, which shows the analytics tab
+
+  3. Security
+    - The functions run as the caller, so the alerts policies decide which
+      alerts are counted
+*/
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('supervisor', 'analytics.view'),
+  ('auditor', 'analytics.view'),
+  ('super_admin', 'analytics.view')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.alert_counts_by_type(
+  p_organization_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_bucket text DEFAULT 'day',
+  p_time_zone text DEFAULT 'UTC'
+)
+RETURNS TABLE (bucket date, type text, alerts bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    date_trunc(p_bucket, alerts.created_at AT TIME ZONE p_time_zone)::date,
+    alerts.type,
+    count(*)
+  FROM alerts
+  WHERE p_bucket IN ('day', 'week', 'month')
+  AND (p_organization_id IS NULL OR alerts.organization_id = p_organization_id)
+  AND (p_from IS NULL OR alerts.created_at >= p_from)
+  AND (p_to IS NULL OR alerts.created_at < p_to)
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+CREATE OR REPLACE FUNCTION public.alert_heatmap(
+  p_organization_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_time_zone text DEFAULT 'UTC'
+)
+RETURNS TABLE (weekday integer, hour integer, alerts bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    extract(isodow FROM alerts.created_at AT TIME ZONE p_time_zone)::integer,
+    extract(hour FROM alerts.created_at AT TIME ZONE p_time_zone)::integer,
+    count(*)
+  FROM alerts
+  WHERE (p_organization_id IS NULL OR alerts.organization_id = p_organization_id)
+  AND (p_from IS NULL OR alerts.created_at >= p_from)
+  AND (p_to IS NULL OR alerts.created_at < p_to)
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+-- Time to resolve only counts alerts closed as resolved: false alarms and
+-- cancellations are closed quickly and would flatter the figures
+CREATE OR REPLACE FUNCTION public.alert_response_times(
+  p_organization_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  alerts bigint,
+  acknowledged bigint,
+  acknowledge_median_seconds double precision,
+  acknowledge_p90_seconds double precision,
+  resolved bigint,
+  resolve_median_seconds double precision,
+  resolve_p90_seconds double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    count(timings.to_acknowledge),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY timings.to_acknowledge),
+    percentile_cont(0.9) WITHIN GROUP (ORDER BY timings.to_acknowledge),
+    count(timings.to_resolve),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY timings.to_resolve),
+    percentile_cont(0.9) WITHIN GROUP (ORDER BY timings.to_resolve)
+  FROM alerts
+  CROSS JOIN LATERAL (
+    SELECT
+      extract(epoch FROM alerts.acknowledged_at - alerts.created_at)::double precision AS to_acknowledge,
+      CASE WHEN alerts.status = 'resolved'
+        THEN extract(epoch FROM alerts.resolved_at - alerts.created_at)::double precision
+      END AS to_resolve
+  ) AS timings
+  WHERE (p_organization_id IS NULL OR alerts.organization_id = p_organization_id)
+  AND (p_from IS NULL OR alerts.created_at >= p_from)
+  AND (p_to IS NULL OR alerts.created_at < p_to);
+$$;
+
+CREATE OR REPLACE FUNCTION public.client_false_alarm_rates(
+  p_organization_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (client_id uuid, alerts bigint, false_alarms bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    alerts.client_id,
+    count(*),
+    count(*) FILTER (WHERE alerts.status = 'false_alarm')
+  FROM alerts
+  WHERE (p_organization_id IS NULL OR alerts.organization_id = p_organization_id)
+  AND (p_from IS NULL OR alerts.created_at >= p_from)
+  AND (p_to IS NULL OR alerts.created_at < p_to)
+  GROUP BY alerts.client_id
+  ORDER BY 3 DESC, 2 DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.operator_workload(
+  p_organization_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id uuid,
+  alerts bigint,
+  acknowledged bigint,
+  dispatched bigint,
+  closed bigint,
+  assigned bigint,
+  acknowledge_median_seconds double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    actions.user_id,
+    count(DISTINCT alerts.id),
+    count(*) FILTER (WHERE actions.action = 'acknowledged'),
+    count(*) FILTER (WHERE actions.action = 'dispatched'),
+    count(*) FILTER (WHERE actions.action = 'closed'),
+    count(*) FILTER (WHERE actions.action = 'assigned'),
+    percentile_cont(0.5) WITHIN GROUP (
+      ORDER BY extract(epoch FROM alerts.acknowledged_at - alerts.created_at)::double precision
+    ) FILTER (WHERE actions.action = 'acknowledged')
+  FROM alerts
+  CROSS JOIN LATERAL (
+    VALUES
+      ('acknowledged', alerts.acknowledged_by),
+      ('dispatched', alerts.dispatched_by),
+      -- A client cancelling with their PIN is stamped as resolved_by
+      ('closed', CASE WHEN NOT alerts.cancelled_by_client THEN alerts.resolved_by END),
+      ('assigned', alerts.assigned_to)
+  ) AS actions(action, user_id)
+  WHERE actions.user_id IS NOT NULL
+  AND (p_organization_id IS NULL OR alerts.organization_id = p_organization_id)
+  AND (p_from IS NULL OR alerts.created_at >= p_from)
+  AND (p_to IS NULL OR alerts.created_at < p_to)
+  GROUP BY actions.user_id
+  ORDER BY 2 DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.alert_counts_by_type(uuid, timestamptz, timestamptz, text, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.alert_heatmap(uuid, timestamptz, timestamptz, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.alert_response_times(uuid, timestamptz, timestamptz) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.client_false_alarm_rates(uuid, timestamptz, timestamptz) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.operator_workload(uuid, timestamptz, timestamptz) FROM anon;
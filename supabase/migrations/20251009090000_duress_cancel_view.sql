@@ -0,0 +1,151 @@
+/*
+  # Keep a duress cancellation looking like a real one
+
+  1. Changes
+    - `alerts.duress_at` (timestamp) records when the client entered the duress
+      PIN to cancel the alert. The client's screen shows the alert as cancelled
+      at that moment, exactly as a real cancellation would, and hides whatever
+      the control room does afterwards
+    - Existing duress cancellations are backfilled from their 'cancel_rejected'
+      events; duress alerts raised at sign-in keep `duress_at` null
+
+  2. Functions
+    - `client_cancel_alert(alert_id, pin)` now stamps `duress_at` the first time
+      the duress PIN is used on an alert
+    - `alert_responder_name(alert_id)` now answers the client for duress alerts
+      too, naming only whoever had picked the alert up before `duress_at`, as
+      it would for a cancelled alert
+
+  3. Security
+    - Staff still see the live alert; only what the client is shown changes
+    - Clients can read the chat of a duress alert up to `duress_at`, as they
+      can the chat of a cancelled alert. Duress alerts raised at sign-in still
+      have no chat
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS duress_at timestamptz;
+
+-- Only alerts "cancelled" with the duress PIN. Alerts raised silently by a
+-- duress PIN at sign-in were never cancelled and must stay off the client's screen
+UPDATE alerts
+SET duress_at = duress_cancels.created_at
+FROM (
+  SELECT alert_events.alert_id, min(alert_events.created_at) AS created_at
+  FROM alert_events
+  WHERE alert_events.event_type = 'cancel_rejected'
+  AND alert_events.details->>'reason' = 'duress_pin'
+  GROUP BY alert_events.alert_id
+) AS duress_cancels
+WHERE duress_cancels.alert_id = alerts.id
+AND alerts.duress
+AND alerts.duress_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.client_cancel_alert(p_alert_id uuid, p_pin text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alert alerts%ROWTYPE;
+  v_pin text;
+BEGIN
+  SELECT * INTO v_alert
+  FROM alerts
+  WHERE id = p_alert_id
+  AND client_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_alert.created_at < now() - interval '3 minutes' OR NOT EXISTS (
+    SELECT 1 FROM alert_status_transitions
+    WHERE from_status = v_alert.status
+    AND to_status = 'cancelled'
+  ) THEN
+    RETURN 'expired';
+  END IF;
+
+  v_pin := check_client_pin(p_pin);
+
+  IF v_pin = 'unset' THEN
+    RETURN 'unset';
+  END IF;
+
+  IF v_pin = 'valid' THEN
+    PERFORM set_config('securealert.transition_note', 'Cancelled by client with PIN', true);
+
+    UPDATE alerts
+    SET status = 'cancelled', cancelled_by_client = true, updated_at = now()
+    WHERE id = p_alert_id;
+
+    PERFORM set_config('securealert.transition_note', '', true);
+    RETURN 'cancelled';
+  END IF;
+
+  -- Wrong or duress PIN: the alert stays live and moves up the queue
+  UPDATE alerts
+  SET
+    duress = duress OR v_pin = 'duress',
+    duress_at = CASE WHEN v_pin = 'duress' THEN coalesce(duress_at, now()) ELSE duress_at END,
+    priority_boost = priority_boost + CASE WHEN v_pin = 'duress' THEN 2 ELSE 1 END,
+    updated_at = now()
+  WHERE id = p_alert_id;
+
+  INSERT INTO alert_events (alert_id, organization_id, event_type, actor_id, details)
+  VALUES (
+    p_alert_id,
+    v_alert.organization_id,
+    'cancel_rejected',
+    auth.uid(),
+    jsonb_build_object('reason', CASE WHEN v_pin = 'duress' THEN 'duress_pin' ELSE 'invalid_pin' END)
+  );
+
+  RETURN CASE WHEN v_pin = 'duress' THEN 'cancelled' ELSE 'invalid' END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.client_cancel_alert(uuid, text) FROM anon;
+
+CREATE OR REPLACE FUNCTION public.alert_responder_name(p_alert_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT nullif(split_part(trim(user_roles.display_name), ' ', 1), '')
+  FROM alerts
+  JOIN user_roles ON user_roles.user_id = CASE
+    WHEN alerts.client_id = auth.uid() AND alerts.duress THEN coalesce(
+      CASE WHEN alerts.assigned_at <= alerts.duress_at THEN alerts.assigned_to END,
+      CASE WHEN alerts.dispatched_at <= alerts.duress_at THEN alerts.dispatched_by END,
+      CASE WHEN alerts.acknowledged_at <= alerts.duress_at THEN alerts.acknowledged_by END
+    )
+    ELSE coalesce(alerts.assigned_to, alerts.dispatched_by, alerts.acknowledged_by)
+  END
+  WHERE alerts.id = p_alert_id
+  AND (
+    alerts.client_id = auth.uid() OR
+    (has_permission('alert.view') AND in_organization(alerts.organization_id))
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.alert_responder_name(uuid) FROM anon;
+
+DROP POLICY IF EXISTS "Clients can read the chat of their own alerts" ON alert_messages;
+
+CREATE POLICY "Clients can read the chat of their own alerts"
+  ON alert_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM alerts
+      WHERE alerts.id = alert_id
+      AND alerts.client_id = auth.uid()
+      AND (NOT alerts.duress OR alert_messages.created_at <= alerts.duress_at)
+    )
+  );
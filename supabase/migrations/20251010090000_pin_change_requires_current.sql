@@ -0,0 +1,49 @@
+/*
+  # Changing PINs requires the current PIN
+
+  1. Functions
+    - `set_client_pins(pin, duress_pin, current_pin)` replaces
+      `set_client_pins(pin, duress_pin)`. Setting PINs for the first time works
+      as before; once a client has PINs, they can only be changed by giving the
+      current PIN, so an unlocked phone is not enough to replace them
+
+  2. Security
+    - The duress PIN is not accepted as the current PIN
+*/
+
+DROP FUNCTION IF EXISTS public.set_client_pins(text, text);
+
+CREATE OR REPLACE FUNCTION public.set_client_pins(p_pin text, p_duress_pin text, p_current_pin text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM clients WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only clients can set PINs' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM client_pins WHERE client_id = auth.uid())
+  AND check_client_pin(coalesce(p_current_pin, '')) <> 'valid' THEN
+    RAISE EXCEPTION 'Your current PIN is incorrect' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,8}$' OR p_duress_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PINs must be 4 to 8 digits' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_pin = p_duress_pin THEN
+    RAISE EXCEPTION 'Your duress PIN must be different from your PIN' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO client_pins (client_id, pin_hash, duress_pin_hash, updated_at)
+  VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')), crypt(p_duress_pin, gen_salt('bf')), now())
+  ON CONFLICT (client_id) DO UPDATE SET
+    pin_hash = EXCLUDED.pin_hash,
+    duress_pin_hash = EXCLUDED.duress_pin_hash,
+    updated_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_client_pins(text, text, text) FROM anon;